@@ -3,11 +3,35 @@ const state = {
   view: [],
   filter: 'all',
   query: '',
-  sort: 'date_desc',
+  sort: 'importance_desc',
   type: 'all',         // 追加: 種別フィルタ
   issuer: 'all',       // 追加: 発行体（企業固有か）フィルタ
   dedupe: true,        // 追加: 重複抑止
-  onlyWithin24h: true  // 追加: 24時間以内に限定
+  onlyWithin24h: true, // 追加: 24時間以内に限定
+  // 静的ページ（scripts/site/build.ts）の銘柄・日付ページで固定される絞り込み
+  ticker: '',          // '7203.T'
+  day: '',             // 'YYYY-MM-DD'（JST）
+  // アーカイブ（日付別シャード）の遅延読み込み状態
+  archive: { manifest: null, next: 0, loading: false, done: false },
+  // ウォッチリスト（lists は watchlists.json、read は既読にした記事 id）
+  watch: { lists: [], active: '', read: new Set() }
+};
+
+const NEWS_JSON = 'assets/data/news.json';
+const ARCHIVE_DIR = 'assets/data/archive';
+const ARCHIVE_MANIFEST = `${ARCHIVE_DIR}/manifest.json`;
+const ARCHIVE_DAYS_PER_LOAD = 3; // 1回の読み込みで取得する日数
+const WATCHLISTS_JSON = 'assets/data/watchlists.json';
+const READ_STORAGE_KEY = 'fin-news:read';
+const READ_MAX = 3000; // 既読 id の保存上限（古いものから捨てる）
+// 重要度の内訳（ビルド時に scripts/lib/importance.ts が付ける factors）の表示名
+const FACTOR_LABELS = {
+  source: '媒体の信頼度',
+  disclosure: '開示・記事の種別',
+  watchlist: 'ウォッチリスト',
+  cluster: '複数媒体で報道',
+  freshness: '鮮度',
+  severity: '緊急度の高い語'
 };
 
 const el = {
@@ -16,6 +40,8 @@ const el = {
   search: document.getElementById('search'),
   sort: document.getElementById('sort'),
   nav: document.querySelector('.nav'),
+  more: document.getElementById('load-older'),
+  watchPill: document.getElementById('pill-watchlist'),
   // 追加: メトリクス要素（存在すれば更新）
   metrics: {
     market: document.getElementById('metric-market'),
@@ -37,41 +63,139 @@ window.addEventListener('news:set', (ev) => {
   if ('dedupe' in patch) state.dedupe = !!patch.dedupe;
   if ('onlyWithin24h' in patch) state.onlyWithin24h = !!patch.onlyWithin24h;
   render();
+  // 24h 限定を外したら過去分を読み込み始める
+  if (!state.onlyWithin24h && !state.archive.manifest) loadOlder();
 });
 
 async function init(){
+  applyPageContext();
   attachEvents();
-  await loadData();
+  await Promise.all([loadData(), loadWatchlists()]);
   render();
+  // 銘柄ページは過去分も続けて読み込む
+  if (state.ticker) loadOlder();
+}
+
+/**
+ * 静的ページの種類（body の data-filter / data-ticker / data-day）を state に反映する
+ * 銘柄・日付ページは24時間の制限を外す
+ */
+function applyPageContext(){
+  const page = document.body.dataset;
+  if (page.filter) state.filter = page.filter;
+  state.ticker = page.ticker || '';
+  state.day = page.day || '';
+  if (state.ticker || state.day){
+    state.onlyWithin24h = false;
+    const within24h = document.getElementById('toggle-24h');
+    if (within24h) within24h.checked = false;
+  }
 }
 
 /**
  * データ読み込み（ローカルJSON）
- * レポートの基準に合わせ、verified=true のみ掲載
+ * news.json は直近分のみ。過去分は loadOlder でアーカイブから追加する
+ * 24時間以内の制限は applyFilter 側で行う（トグルで切り替えられるように全件保持）
  */
 async function loadData(){
   try{
-    const res = await fetch('assets/data/news.json', { cache: 'no-store' });
+    const res = await fetch(NEWS_JSON, { cache: 'no-cache' });
     if(!res.ok) throw new Error('Failed to load data');
-    const items = await res.json();
-
-    // 正常化とバリデーション（最低限）
-    state.all = items
-      .filter(x => x && x.url && x.verified !== false) // undefinedはtrue扱い、falseは除外
-      .map(x => normalizeItem(x))
-      // 24時間以内のみに制限（初期設定: true）
-      .filter(x => {
-        if (!state.onlyWithin24h) return true;
-        if (!x.publishedAt) return false;
-        const now = new Date();
-        const diff = now.getTime() - x.publishedAt.getTime();
-        return diff >= 0 && diff <= 24 * 60 * 60 * 1000;
-      });
-
+    state.all = toItems(await res.json());
   }catch(err){
     console.error('データ読み込みエラー:', err);
     state.all = [];
   }
+  // 日付ページはその日のシャードも読む（まだ news.json にある日は 404 でよい）
+  if (state.day){
+    const res = await fetch(`${ARCHIVE_DIR}/${state.day}.json`, { cache: 'no-cache' }).catch(() => null);
+    const seen = new Set(state.all.map(x => x.id));
+    if (res && res.ok) state.all.push(...toItems(await res.json()).filter(x => !seen.has(x.id)));
+  }
+}
+
+/**
+ * ウォッチリストの読み込み（fetcher と同じ watchlists.json）
+ * ファイルが無い・空ならタブごと隠す
+ */
+async function loadWatchlists(){
+  const w = state.watch;
+  try{
+    const res = await fetch(WATCHLISTS_JSON, { cache: 'no-cache' });
+    const data = res.ok ? await res.json() : null;
+    w.lists = (data && Array.isArray(data.lists) ? data.lists : []).filter(l => l && l.id).map(l => ({
+      id: String(l.id),
+      name: String(l.name || l.id),
+      tickers: (Array.isArray(l.tickers) ? l.tickers : []).filter(t => t && t.ticker),
+      keywords: (Array.isArray(l.keywords) ? l.keywords : []).map(k => String(k).toLowerCase()).filter(Boolean),
+      xAccounts: (Array.isArray(l.xAccounts) ? l.xAccounts : []).map(h => String(h).replace(/^@/, '').toLowerCase())
+    }));
+  }catch(err){
+    console.error('ウォッチリスト読み込みエラー:', err);
+    w.lists = [];
+  }
+  w.active = w.lists[0] ? w.lists[0].id : '';
+  try{
+    w.read = new Set(JSON.parse(localStorage.getItem(READ_STORAGE_KEY) || '[]'));
+  }catch{
+    w.read = new Set();
+  }
+  if (el.watchPill) el.watchPill.hidden = w.lists.length === 0;
+}
+
+/**
+ * ファイル内容 → 表示用アイテム
+ * レポートの基準に合わせ、verified=true のみ掲載
+ */
+function toItems(data){
+  // 旧形式（配列）と新形式（{ schemaVersion, items }）の両方を受け付ける
+  const items = Array.isArray(data) ? data : (data && Array.isArray(data.items) ? data.items : []);
+
+  // 正常化とバリデーション（最低限）
+  return items
+    .filter(x => x && x.url && x.verified !== false) // undefinedはtrue扱い、falseは除外
+    .map(x => normalizeItem(x));
+}
+
+/**
+ * アーカイブから次の数日分を読み込んで state.all に追加する
+ * manifest.json（新しい日付順）を初回に取得し、以降は未読の日を順に取得
+ */
+async function loadOlder(){
+  const ar = state.archive;
+  if (ar.loading || ar.done) return;
+  ar.loading = true;
+  updateMoreControl();
+  try{
+    if (!ar.manifest){
+      const res = await fetch(ARCHIVE_MANIFEST, { cache: 'no-cache' });
+      // アーカイブ未作成（404）なら読み込むものは無い
+      ar.manifest = res.ok ? await res.json() : { days: [] };
+    }
+    const days = Array.isArray(ar.manifest.days) ? ar.manifest.days : [];
+    const batch = days.slice(ar.next, ar.next + ARCHIVE_DAYS_PER_LOAD);
+    ar.next += batch.length;
+    if (ar.next >= days.length) ar.done = true;
+
+    // 同じ日のシャードには後から追記される（archive の appendToShard）ので、毎回再検証する
+    const shards = await Promise.all(batch.map(d =>
+      fetch(d.file, { cache: 'no-cache' }).then(r => r.ok ? r.json() : []).catch(() => [])
+    ));
+    const seen = new Set(state.all.map(x => x.id));
+    for (const data of shards){
+      for (const it of toItems(data)){
+        if (seen.has(it.id)) continue;
+        seen.add(it.id);
+        state.all.push(it);
+      }
+    }
+  }catch(err){
+    console.error('アーカイブ読み込みエラー:', err);
+    ar.done = true;
+  }finally{
+    ar.loading = false;
+  }
+  render();
 }
 
 /**
@@ -87,7 +211,7 @@ function normalizeItem(x){
   const tags = Array.isArray(x.tags) ? x.tags.slice(0,8) : [];
   const locale = x.locale || 'ja';
   const verified = x.verified !== false;
-  const thumbnail = x.thumbnail || '';
+  const thumbnail = /^https?:\/\//i.test(x.thumbnail || '') ? x.thumbnail : '';
 
   // 新フィールド（任意）
   let type = (x.type || '').toString();         // 'earnings' | 'disclosure' | 'macro' | 'fx' | 'equityIndex' | 'policy' | ...
@@ -121,6 +245,14 @@ function normalizeItem(x){
     thumbnail,
     type,
     tickers,
+    clusterId: (x.clusterId || '').toString(), // 同じ出来事を報じた項目に共通（ビルド時に付与）
+    watchlists: Array.isArray(x.watchlists) ? x.watchlists : [], // 該当するウォッチリスト id（ビルド時に付与）
+    author: (x.author || '').toString(),
+    repostedBy: x.post && x.post.repostedBy ? x.post.repostedBy.toString() : '', // X のリポスト元のアカウント（source は元の投稿者）
+    section: (x.section || '').toString(),
+    summarizedBy: (x.summarizedBy || '').toString(), // 要約を自動生成した場合のプロバイダ名
+    importance: Number.isInteger(x.importance) ? x.importance : 0, // 1..5（ビルド時に算出。無い古い項目は 0）
+    factors: x.factors && typeof x.factors === 'object' ? x.factors : null,
     issuer
   };
 }
@@ -144,7 +276,8 @@ function attachEvents(){
   // ナビゲーションのフィルタ
   el.nav.addEventListener('click', (e) => {
     const a = e.target.closest('a[data-filter]');
-    if(!a) return;
+    // 銘柄・日付ページではカテゴリのページへ移動させる
+    if(!a || state.ticker || state.day) return;
     e.preventDefault();
     document.querySelectorAll('.nav-link').forEach(n => n.classList.remove('active'));
     a.classList.add('active');
@@ -163,6 +296,27 @@ function attachEvents(){
     state.sort = e.target.value;
     render();
   });
+
+  // 過去分の読み込み（ボタン + 一覧の末尾までスクロールしたら自動）
+  if (el.more){
+    el.more.querySelector('button')?.addEventListener('click', () => loadOlder());
+    if ('IntersectionObserver' in window){
+      const io = new IntersectionObserver((entries) => {
+        if (entries.some(e => e.isIntersecting) && !el.more.hidden) loadOlder();
+      }, { rootMargin: '200px' });
+      io.observe(el.more);
+    }
+  }
+}
+
+function updateMoreControl(){
+  if (!el.more) return;
+  el.more.hidden = state.onlyWithin24h || state.archive.done || !!state.day;
+  const btn = el.more.querySelector('button');
+  if (btn){
+    btn.disabled = state.archive.loading;
+    btn.textContent = state.archive.loading ? '読み込み中…' : 'さらに古いニュースを読み込む';
+  }
 }
 
 function applyFilter(items){
@@ -174,8 +328,19 @@ function applyFilter(items){
     out = out.filter(x => x.publishedAt && (now.getTime() - x.publishedAt.getTime()) <= 24*60*60*1000 && (now.getTime() - x.publishedAt.getTime()) >= 0);
   }
 
-  // カテゴリフィルタ
-  if(state.filter !== 'all'){
+  // 銘柄・日付ページの固定の絞り込み
+  if (state.ticker) {
+    out = out.filter(x => x.tickers.includes(state.ticker));
+  }
+  if (state.day) {
+    out = out.filter(x => x.publishedAt && jstDateKey(x.publishedAt) === state.day);
+  }
+
+  // カテゴリフィルタ（ウォッチリストタブは選択中のリストに該当するもの）
+  if(state.filter === 'watchlist'){
+    const list = activeWatchlist();
+    out = list ? out.filter(x => matchesWatchlist(x, list)) : [];
+  }else if(state.filter !== 'all'){
     out = out.filter(x => x.category === state.filter);
   }
 
@@ -211,6 +376,10 @@ function applyFilter(items){
   // 並び替え
   out = out.slice();
   switch(state.sort){
+    case 'importance_desc':
+      // 同じ重要度の中では新しい順
+      out.sort((a,b) => (b.importance - a.importance) || ((b.publishedAt?.getTime()||0) - (a.publishedAt?.getTime()||0)));
+      break;
     case 'date_asc':
       out.sort((a,b) => (a.publishedAt?.getTime()||0) - (b.publishedAt?.getTime()||0));
       break;
@@ -226,6 +395,11 @@ function applyFilter(items){
       break;
   }
 
+  // 同じ出来事の報道は1枚のカードにまとめる（並び順で先に来たものを代表にする）
+  if(state.dedupe){
+    out = groupClusters(out);
+  }
+
   return out;
 }
 
@@ -248,13 +422,43 @@ function dedupeItems(arr){
   return keep;
 }
 
+/**
+ * clusterId が同じ項目を代表1件にまとめ、残りを related に持たせる
+ * state.all の要素は書き換えず、代表だけ浅いコピーにする
+ */
+function groupClusters(arr){
+  const leads = new Map();
+  const out = [];
+  for(const it of arr){
+    if(!it.clusterId){
+      out.push(it);
+      continue;
+    }
+    const lead = leads.get(it.clusterId);
+    if(lead){
+      lead.related.push(it);
+      continue;
+    }
+    const copy = { ...it, related: [] };
+    leads.set(it.clusterId, copy);
+    out.push(copy);
+  }
+  return out;
+}
+
 function render(){
   state.view = applyFilter(state.all);
 
   // メトリクス更新
   updateMetrics(state.view);
+  updateMoreControl();
+  updateWatchBadge();
 
   el.cards.innerHTML = '';
+  const watching = state.filter === 'watchlist';
+  if(watching && state.watch.lists.length > 1){
+    el.cards.appendChild(renderWatchlistSelect());
+  }
   if(state.view.length === 0){
     el.empty.hidden = false;
     return;
@@ -262,12 +466,144 @@ function render(){
   el.empty.hidden = true;
 
   const frag = document.createDocumentFragment();
-  state.view.forEach(item => {
-    frag.appendChild(renderCard(item));
-  });
+  if(watching){
+    groupByWatchedTicker(state.view, activeWatchlist()).forEach(g => {
+      frag.appendChild(renderGroupHeader(g));
+      g.items.forEach(item => frag.appendChild(renderCard(item)));
+    });
+  }else{
+    state.view.forEach(item => {
+      frag.appendChild(renderCard(item));
+    });
+  }
   el.cards.appendChild(frag);
 }
 
+function activeWatchlist(){
+  const w = state.watch;
+  return w.lists.find(l => l.id === w.active) || null;
+}
+
+/**
+ * ビルド時のタグ（watchlists）に加え、タグ付け前の古い記事やリスト編集直後にも効くよう画面側でも照合する
+ * 照合条件は scripts/lib/watchlist.ts の matchWatchlists と同じ（銘柄・キーワード・X アカウント）
+ */
+function matchesWatchlist(item, list){
+  if(item.watchlists.includes(list.id)) return true;
+  if(item.tickers.some(t => list.tickers.some(w => w.ticker === t))) return true;
+  const text = (item.title + ' ' + item.summary).toLowerCase();
+  if(list.keywords.some(k => text.includes(k))) return true;
+  // X のリポストは元の投稿者が source なので、リポストしたアカウントでも照合する
+  const handles = [item.source, item.repostedBy ? `X: ${item.repostedBy}` : '']
+    .map(s => (s.match(/^x:\s*@(\w+)/i) || [])[1])
+    .filter(Boolean);
+  return handles.some(h => list.xAccounts.includes(h.toLowerCase()));
+}
+
+/**
+ * 銘柄ごとのグループに分ける（リストの並び順）。銘柄に当たらない記事は「その他」にまとめる
+ * 複数銘柄に触れる記事はそれぞれのグループに出す
+ */
+function groupByWatchedTicker(items, list){
+  const groups = list.tickers.map(t => ({
+    key: t.ticker,
+    label: t.name ? `${t.name}（${t.ticker.replace(/\.T$/, '')}）` : t.ticker,
+    items: items.filter(x => x.tickers.includes(t.ticker))
+  })).filter(g => g.items.length);
+  const rest = items.filter(x => !list.tickers.some(t => x.tickers.includes(t.ticker)));
+  if(rest.length) groups.push({ key: 'other', label: 'その他（キーワード・アカウント）', items: rest });
+  return groups;
+}
+
+// 記事とその「ほかの報道」を既読扱いにする
+function idsOf(item){
+  return [item.id, ...(item.related || []).map(r => r.id)];
+}
+
+function isRead(item){
+  return idsOf(item).every(id => state.watch.read.has(id));
+}
+
+function markRead(ids){
+  const read = state.watch.read;
+  ids.forEach(id => { read.delete(id); read.add(id); });
+  // Set は挿入順なので、上限を超えた分は古いものから捨てる
+  const list = [...read].slice(-READ_MAX);
+  state.watch.read = new Set(list);
+  try{
+    localStorage.setItem(READ_STORAGE_KEY, JSON.stringify(list));
+  }catch{
+    // プライベートモード等で保存できなくても表示は続ける
+  }
+}
+
+function renderGroupHeader(group){
+  const head = document.createElement('div');
+  head.className = 'watch-group';
+
+  const title = document.createElement('h2');
+  title.className = 'watch-group-title';
+  title.textContent = group.label;
+  head.appendChild(title);
+
+  const unread = group.items.filter(x => !isRead(x));
+  const count = document.createElement('span');
+  count.className = 'unread-badge';
+  count.textContent = `未読 ${unread.length}`;
+  count.hidden = unread.length === 0;
+  head.appendChild(count);
+
+  if(unread.length){
+    const btn = document.createElement('button');
+    btn.type = 'button';
+    btn.className = 'filter-toggle';
+    btn.textContent = '既読にする';
+    btn.addEventListener('click', () => {
+      markRead(unread.flatMap(idsOf));
+      render();
+    });
+    head.appendChild(btn);
+  }
+  return head;
+}
+
+function renderWatchlistSelect(){
+  const wrap = document.createElement('div');
+  wrap.className = 'watch-group';
+  const label = document.createElement('label');
+  label.className = 'filter-label';
+  label.textContent = 'ウォッチリスト: ';
+  const sel = document.createElement('select');
+  sel.className = 'filter-select';
+  state.watch.lists.forEach(l => {
+    const o = document.createElement('option');
+    o.value = l.id;
+    o.textContent = l.name;
+    o.selected = l.id === state.watch.active;
+    sel.appendChild(o);
+  });
+  sel.addEventListener('change', () => {
+    state.watch.active = sel.value;
+    render();
+  });
+  label.appendChild(sel);
+  wrap.appendChild(label);
+  return wrap;
+}
+
+/**
+ * タブの未読件数（選択中のリストに該当し、まだ開いていない記事）
+ * 24時間フィルタ等に関係なく読み込み済みの全件で数える
+ */
+function updateWatchBadge(){
+  const badge = document.getElementById('watchlist-unread');
+  if(!badge) return;
+  const list = activeWatchlist();
+  const n = list ? state.all.filter(x => matchesWatchlist(x, list) && !state.watch.read.has(x.id)).length : 0;
+  badge.textContent = String(n);
+  badge.hidden = n === 0;
+}
+
 function updateMetrics(view){
   try{
     const market = view.filter(x => x.category === 'market').length;
@@ -296,7 +632,7 @@ function renderCard(item){
                 : 'SNS投稿';
 
   const card = document.createElement('article');
-  card.className = 'card';
+  card.className = state.filter === 'watchlist' && isRead(item) ? 'card is-read' : 'card';
   card.setAttribute('aria-label', `${a11yCat}: ${item.title}`);
 
   const body = document.createElement('div');
@@ -317,17 +653,20 @@ function renderCard(item){
     badges.appendChild(t);
   }
 
-  // 重要度（簡易推定）と星表示
-  const importance = estimateImportance(item);
+  // 重要度（ビルド時のスコア）と星表示。内訳はツールチップとカード下部に出す
+  const importance = item.importance;
   if (importance > 0) {
+    const why = describeFactors(item.factors);
     const imp = document.createElement('span');
     imp.className = 'badge ' + (importance >= 4 ? 'impact-high' : importance >= 2 ? 'impact-mid' : 'impact-low');
     imp.textContent = `重要度:${importance}`;
+    if (why) imp.title = why;
     badges.appendChild(imp);
 
     const stars = document.createElement('span');
     stars.className = 'badge stars';
     stars.textContent = '★'.repeat(importance) + '☆'.repeat(Math.max(0, 5 - importance));
+    if (why) stars.title = why;
     badges.appendChild(stars);
   }
 
@@ -362,38 +701,14 @@ function renderCard(item){
     const p = document.createElement('p');
     p.className = 'card-summary';
     p.textContent = item.summary;
-    body.appendChild(p);
-  }
-  
-  // 簡易重要度評価ロジック（市場インパクト/投資判断影響度の代替スコア）
-  function estimateImportance(item){
-    try{
-      const now = new Date();
-      let score = 1;
-  
-      // カテゴリ寄与
-      if (item.category === 'market') score += 1;
-      if (item.category === 'company' && (item.type === 'earnings' || item.type === 'disclosure')) score += 2;
-  
-      // 種別の寄与
-      if (item.type === 'macro' || item.type === 'fx' || item.type === 'equityIndex') score += 2;
-      if (item.type === 'earnings' || item.type === 'disclosure') score += 1;
-  
-      // 企業ティッカーが付与されていれば投資判断に寄与
-      if (Array.isArray(item.tickers) && item.tickers.length) score += 1;
-  
-      // 新鮮度寄与（24h以内）
-      if (item.publishedAt && (now.getTime() - item.publishedAt.getTime()) <= 24*60*60*1000) score += 1;
-  
-      // タグが投資・警戒ワードを含む場合
-      const tagText = (item.tags || []).join(' ').toLowerCase() + ' ' + (item.title||'').toLowerCase();
-      if (/警戒|急落|緊急|利下げ|利上げ|サプライズ|速報|決算|下方修正|上方修正|通期/.test(tagText)) score += 1;
-  
-      // スコアを1..5にクランプ
-      return Math.max(1, Math.min(5, score));
-    }catch{
-      return 1;
+    if(item.summarizedBy){
+      const note = document.createElement('small');
+      note.className = 'summary-note';
+      note.textContent = '（自動要約）';
+      note.title = `要約は ${item.summarizedBy} による自動生成です`;
+      p.appendChild(note);
     }
+    body.appendChild(p);
   }
 
   // メタ
@@ -401,9 +716,19 @@ function renderCard(item){
   meta.className = 'card-meta';
   if(item.source){
     const s = document.createElement('span');
-    s.textContent = item.source;
+    s.textContent = item.section ? `${item.source}・${item.section}` : item.source;
     meta.appendChild(s);
   }
+  if(item.repostedBy){
+    const rp = document.createElement('span');
+    rp.textContent = `${item.repostedBy} がリポスト`;
+    meta.appendChild(rp);
+  }
+  if(item.author){
+    const au = document.createElement('span');
+    au.textContent = item.author;
+    meta.appendChild(au);
+  }
   if(item.publishedAt){
     const d = document.createElement('time');
     d.dateTime = item.publishedAt.toISOString();
@@ -418,11 +743,18 @@ function renderCard(item){
     meta.appendChild(freshEl);
   }
 
-  // tickersを軽く表示
+  // tickersを軽く表示（銘柄ページへのリンク）
   if(Array.isArray(item.tickers) && item.tickers.length){
     const tk = document.createElement('div');
     tk.className = 'card-meta';
-    tk.textContent = `Ticker: ${item.tickers.slice(0,3).join(', ')}`;
+    tk.append('Ticker: ');
+    item.tickers.slice(0,3).forEach((t, i) => {
+      if (i) tk.append(', ');
+      const a = document.createElement('a');
+      a.href = `ticker/${encodeURIComponent(t.replace(/\.T$/, ''))}/`;
+      a.textContent = t;
+      tk.appendChild(a);
+    });
     body.appendChild(tk);
   }
 
@@ -430,6 +762,39 @@ function renderCard(item){
   body.appendChild(h);
   body.appendChild(meta);
 
+  // 他媒体の同じ報道（「ほかの報道」）
+  if(Array.isArray(item.related) && item.related.length){
+    const also = document.createElement('div');
+    also.className = 'card-meta also-reported';
+    const label = document.createElement('span');
+    label.textContent = `ほかの報道 ${item.related.length}件:`;
+    also.appendChild(label);
+    item.related.forEach(r => {
+      const a = document.createElement('a');
+      a.href = r.url;
+      a.target = '_blank';
+      a.rel = 'noopener noreferrer';
+      a.title = r.title;
+      a.textContent = r.source || r.title;
+      also.appendChild(a);
+    });
+    body.appendChild(also);
+  }
+
+  // 重要度の根拠（加点のあった要素のみ）
+  const why = describeFactors(item.factors);
+  if(why){
+    const details = document.createElement('details');
+    details.className = 'card-meta importance-why';
+    const summary = document.createElement('summary');
+    summary.textContent = `なぜ★${item.importance}？`;
+    details.appendChild(summary);
+    const list = document.createElement('span');
+    list.textContent = why;
+    details.appendChild(list);
+    body.appendChild(details);
+  }
+
   // アクション
   const actions = document.createElement('div');
   actions.className = 'card-actions';
@@ -447,12 +812,44 @@ function renderCard(item){
   ext.textContent = '外部サイト';
   actions.appendChild(ext);
 
+  // 代表画像（記事の og:image）。読み込めなければ枠ごと外す
+  if(item.thumbnail){
+    const img = document.createElement('img');
+    img.className = 'card-thumb';
+    img.src = item.thumbnail;
+    img.alt = '';
+    img.loading = 'lazy';
+    img.referrerPolicy = 'no-referrer';
+    img.addEventListener('error', () => img.remove());
+    card.appendChild(img);
+  }
   card.appendChild(body);
   card.appendChild(actions);
 
+  // 記事を開いたら既読にする（ウォッチリストの未読件数に反映）
+  card.addEventListener('click', (e) => {
+    if(!e.target.closest('a[href]')) return;
+    markRead(idsOf(item));
+    if(state.filter === 'watchlist') render();
+    else updateWatchBadge();
+  });
+
   return card;
 }
 
+function describeFactors(factors){
+  if(!factors) return '';
+  return Object.keys(FACTOR_LABELS)
+    .filter(k => typeof factors[k] === 'number' && factors[k] > 0)
+    .map(k => `${FACTOR_LABELS[k]} +${factors[k]}`)
+    .join(' / ');
+}
+
+// 日本時間の暦日（scripts/data/archive.ts の jstDateKey と同じ）
+function jstDateKey(d){
+  return new Date(d.getTime() + 9*60*60*1000).toISOString().slice(0, 10);
+}
+
 function formatDate(d){
   try{
     return new Intl.DateTimeFormat('ja-JP', { year:'numeric', month:'2-digit', day:'2-digit', hour:'2-digit', minute:'2-digit' }).format(d);
@@ -461,37 +858,6 @@ function formatDate(d){
   }
 }
 
-// 簡易重要度評価ロジック（市場インパクト/投資判断影響度の代替スコア）
-function estimateImportance(item){
-  try{
-    const now = new Date();
-    let score = 1;
-
-    // カテゴリ寄与
-    if (item.category === 'market') score += 1;
-    if (item.category === 'company' && (item.type === 'earnings' || item.type === 'disclosure')) score += 2;
-
-    // 種別の寄与
-    if (item.type === 'macro' || item.type === 'fx' || item.type === 'equityIndex') score += 2;
-    if (item.type === 'earnings' || item.type === 'disclosure') score += 1;
-
-    // 企業ティッカーが付与されていれば投資判断に寄与
-    if (Array.isArray(item.tickers) && item.tickers.length) score += 1;
-
-    // 新鮮度寄与（24h以内）
-    if (item.publishedAt && (now.getTime() - item.publishedAt.getTime()) <= 24*60*60*1000) score += 1;
-
-    // タグが投資・警戒ワードを含む場合
-    const tagText = (item.tags || []).join(' ').toLowerCase() + ' ' + (item.title||'').toLowerCase();
-    if (/警戒|急落|緊急|利下げ|利上げ|サプライズ|速報|決算|下方修正|上方修正|通期/.test(tagText)) score += 1;
-
-    // スコアを1..5にクランプ
-    return Math.max(1, Math.min(5, score));
-  }catch{
-    return 1;
-  }
-}
-
 function isWithin24h(d){
   try{
     const now = new Date();
@@ -0,0 +1,109 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { NewsItem } from '../lib/schema';
+import { testItem, withStubServer } from '../lib/test-helpers';
+import { loadWatchlists, tagWatchlists } from '../lib/watchlist';
+import { createClassifier } from '../classify/classifier';
+import { toNewsItem } from '../tdnet/fetch-tdnet';
+import { TdnetDisclosure } from '../tdnet/daily-list';
+import { alertNewItems, loadAlertConfig, matchesRule } from './alerts';
+
+/**
+ * 通知（ルール → Webhook）をローカルの HTTP サーバ相手に動かす
+ * status で応答を切り替え、受け取った items の id を received に積む
+ */
+
+const T0 = new Date('2026-01-05T00:00:00Z');
+const minutes = (n: number) => new Date(T0.getTime() + n * 60 * 1000);
+
+const item = (id: string, title: string): NewsItem =>
+  testItem({ id, title, category: 'company', source: 'TDnet', publishedAt: T0.toISOString(), tickers: ['7203.T'] });
+
+async function withWebhook(fn: (ctx: { setStatus: (s: number) => void; received: string[][]; configFile: string; stateFile: string }) => Promise<void>) {
+  let status = 200;
+  const received: string[][] = [];
+  await withStubServer((_req, body, res) => {
+    if (status === 200) received.push(JSON.parse(body).items.map((x: any) => x.id));
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(status === 200 ? 'ok' : 'unavailable');
+  }, async ({ baseUrl, dir }) => {
+    const configFile = path.join(dir, 'rules.json');
+    fs.writeFileSync(configFile, JSON.stringify({
+      targets: [{ id: 'hook', kind: 'json', url: `${baseUrl}/` }],
+      rules: [{ id: 'toyota', match: { tickers: ['7203'] }, targets: ['hook'], minIntervalMinutes: 10 }],
+    }));
+    await fn({ setStatus: s => { status = s; }, received, configFile, stateFile: path.join(dir, 'alerts-sent.json') });
+  });
+}
+
+test('一致した項目を送り、同じ項目は二度送らない', async () => {
+  await withWebhook(async ({ received, configFile, stateFile }) => {
+    const items = [item('a', 'トヨタ、決算発表'), { ...item('b', '日銀、金融政策を据え置き'), tickers: [] }];
+    await alertNewItems(items, { configFile, stateFile, now: T0 });
+    assert.deepEqual(received, [['a']]);
+
+    await alertNewItems(items, { configFile, stateFile, now: minutes(30) });
+    assert.deepEqual(received, [['a']]);
+  });
+});
+
+test('間隔待ちで持ち越した項目は、新着が無い回にも送る', async () => {
+  await withWebhook(async ({ received, configFile, stateFile }) => {
+    await alertNewItems([item('a', 'トヨタ、決算発表')], { configFile, stateFile, now: T0 });
+    await alertNewItems([item('b', 'トヨタ、業績予想を修正')], { configFile, stateFile, now: minutes(1) });
+    assert.deepEqual(received, [['a']]);
+
+    // 間隔内なら新着が無くても送らない
+    await alertNewItems([], { configFile, stateFile, now: minutes(5) });
+    assert.deepEqual(received, [['a']]);
+
+    await alertNewItems([], { configFile, stateFile, now: minutes(11) });
+    assert.deepEqual(received, [['a'], ['b']]);
+    assert.deepEqual(JSON.parse(fs.readFileSync(stateFile, 'utf-8')).pending, {});
+  });
+});
+
+test('送信に失敗した項目は、送信先が復旧した後の新着が無い回に送る', async () => {
+  await withWebhook(async ({ setStatus, received, configFile, stateFile }) => {
+    setStatus(503);
+    await alertNewItems([item('a', 'トヨタ、決算発表')], { configFile, stateFile, now: T0 });
+    assert.deepEqual(received, []);
+
+    setStatus(200);
+    await alertNewItems([], { configFile, stateFile, now: minutes(1) });
+    assert.deepEqual(received, [['a']]);
+  });
+});
+
+test('新着も持ち越しも無ければ何もしない', async () => {
+  await withWebhook(async ({ received, configFile, stateFile }) => {
+    await alertNewItems([], { configFile, stateFile, now: T0 });
+    assert.deepEqual(received, []);
+    assert.equal(fs.existsSync(stateFile), false);
+  });
+});
+
+test('TDnet の決算短信・業績予想の修正はウォッチ銘柄の決算ルール（rules.json）に当たる', () => {
+  const rule = loadAlertConfig()!.rules.find(r => r.id === 'watchlist-guidance')!;
+  const classifier = createClassifier();
+  const disclosure = (title: string): TdnetDisclosure => ({
+    disclosedAt: T0.toISOString(),
+    code: '72030',
+    ticker: '7203.T',
+    company: 'トヨタ自動車',
+    title,
+    pdfUrl: `https://www.release.tdnet.info/inbs/${encodeURIComponent(title)}.pdf`,
+    xbrlUrl: null,
+    exchange: '東名',
+  });
+  const matched = (title: string) => {
+    const [x] = tagWatchlists([toNewsItem(disclosure(title), classifier)], loadWatchlists(['core']));
+    return matchesRule(x, rule.match);
+  };
+
+  assert.equal(matched('2026年3月期 第3四半期決算短信〔日本基準〕（連結）'), true);
+  assert.equal(matched('業績予想の修正に関するお知らせ'), true);
+  assert.equal(matched('自己株式の取得状況に関するお知らせ'), false);
+});
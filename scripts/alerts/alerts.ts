@@ -0,0 +1,244 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { NewsItem } from '../lib/schema';
+import { atomicWriteFile } from '../lib/store';
+import { RUN_MODE } from '../lib/replay';
+import { TargetKind, buildPayload, postWebhook } from './webhook';
+
+/**
+ * 新着項目の通知（scripts/alerts/rules.json のルール → Webhook）
+ * 各フェッチャーが news.json へ追記した直後に、追記した項目だけを渡して呼ぶ（alertNewItems）
+ *   ルール   銘柄・ウォッチリスト・種別・キーワード・重要度・ソースで絞る（指定した条件はすべて満たすこと。各条件の中はいずれか）
+ *   送信先   json（汎用）/ slack（Incoming Webhook 互換）。url は "env:変数名" で環境変数から読む
+ *   間引き   ルール×送信先ごとに minIntervalMinutes 以内の再送はせず、次の実行へ持ち越してまとめて送る
+ *   送信記録 .cache/alerts-sent.json（同じ項目を同じ送信先へ二度送らない。送信に失敗した分も持ち越す）
+ */
+
+export const ALERTS_JSON = process.env.ALERTS_FILE || path.join('scripts', 'alerts', 'rules.json');
+export const ALERT_STATE_JSON = process.env.ALERT_STATE_FILE || path.join('.cache', 'alerts-sent.json');
+
+// 送信記録を残す日数（これより古い項目が再び新着として来ることはない）
+const SENT_RETENTION_DAYS = 30;
+// 持ち越す項目の上限（送信先が長く落ちているときに溜め込みすぎない）
+const PENDING_LIMIT = 50;
+const MINUTE_MS = 60 * 1000;
+
+export type AlertMatch = {
+  tickers?: string[];     // "7203.T"（".T" は省略可）
+  watchlists?: string[];  // 取り込み時に付いたウォッチリストの id（lib/watchlist.ts）
+  types?: string[];       // earnings / disclosure / macro / fx / equityIndex ...
+  keywords?: string[];    // 見出し・要約に含まれる語（NFKC・小文字で比較）
+  sources?: string[];     // source に含まれる文字列（例: "TDnet", "@nikkei"）
+  minImportance?: number; // importance（1..5）がこれ以上
+};
+
+export type AlertRule = {
+  id: string;
+  name?: string;
+  match: AlertMatch;
+  targets: string[];
+  minIntervalMinutes?: number;  // 既定 0（間引かない）
+};
+
+export type AlertTarget = {
+  id: string;
+  kind: TargetKind;
+  url: string;            // URL か "env:変数名"
+};
+
+export type AlertConfig = {
+  targets: AlertTarget[];
+  rules: AlertRule[];
+};
+
+type AlertState = {
+  sent: Record<string, string>;        // "<ルール>><送信先>:<項目 id>" → 送信日時
+  lastSentAt: Record<string, string>;  // "<ルール>><送信先>" → 最後に送った日時
+  pending: Record<string, NewsItem[]>; // "<ルール>><送信先>" → 間引き・送信失敗で持ち越した項目
+};
+
+export type AlertOptions = {
+  dryRun?: boolean;
+  configFile?: string;
+  stateFile?: string;
+  now?: Date;
+};
+
+export type AlertResult = {
+  sent: number;      // 送った項目数（送信先ごとに数える）
+  deferred: number;  // 持ち越した項目数
+  failed: number;    // 送信に失敗したリクエスト数
+};
+
+/**
+ * フェッチャーから呼ぶ入口。通知の設定・送信の失敗で取り込みを失敗扱いにしない
+ * 新着が無くても、前回までに持ち越した項目があれば送る（間引きの間隔が空いた・送信先が復旧した）
+ * 記録・再生モードは news.json を更新しないので通知もしない
+ */
+export async function alertNewItems(items: NewsItem[], opts: AlertOptions = {}) {
+  if (RUN_MODE !== 'live') return;
+  if (items.length === 0 && !hasPending(opts.stateFile ?? ALERT_STATE_JSON)) return;
+  try {
+    await runAlerts(items, opts);
+  } catch (e: any) {
+    console.warn(`[warn] 通知: ${e?.message || e}`);
+  }
+}
+
+export async function runAlerts(items: NewsItem[], opts: AlertOptions = {}): Promise<AlertResult> {
+  const result: AlertResult = { sent: 0, deferred: 0, failed: 0 };
+  const config = loadAlertConfig(opts.configFile);
+  if (!config) return result;
+
+  const targets = resolveTargets(config);
+  if (targets.size === 0) return result;
+
+  const now = opts.now ?? new Date();
+  const stateFile = opts.stateFile ?? ALERT_STATE_JSON;
+  const state = loadState(stateFile);
+
+  for (const rule of config.rules) {
+    const matched = items.filter(x => matchesRule(x, rule.match));
+    for (const targetId of rule.targets) {
+      const target = targets.get(targetId);
+      if (!target) continue;
+      const channel = `${rule.id}>${target.id}`;
+      const queue = uniqueById((state.pending[channel] || []).concat(matched))
+        .filter(x => !state.sent[`${channel}:${x.id}`]);
+      if (queue.length === 0) continue;
+
+      if (opts.dryRun) {
+        console.log(`通知(dry-run): ${rule.id} → ${target.id}: ${queue.length} 件`);
+        queue.forEach(x => console.log(`  ${x.title}`));
+        continue;
+      }
+
+      const last = state.lastSentAt[channel] ? new Date(state.lastSentAt[channel]).getTime() : 0;
+      if (now.getTime() - last < (rule.minIntervalMinutes ?? 0) * MINUTE_MS) {
+        state.pending[channel] = queue.slice(-PENDING_LIMIT);
+        result.deferred += queue.length;
+        console.log(`通知: ${rule.id} → ${target.id} は間隔待ちのため ${queue.length} 件を次回へ持ち越します。`);
+        continue;
+      }
+
+      try {
+        await postWebhook(target.url, buildPayload(target.kind, { id: rule.id, name: rule.name || rule.id }, queue, now));
+        for (const x of queue) state.sent[`${channel}:${x.id}`] = now.toISOString();
+        state.lastSentAt[channel] = now.toISOString();
+        delete state.pending[channel];
+        result.sent += queue.length;
+      } catch (e: any) {
+        state.pending[channel] = queue.slice(-PENDING_LIMIT);
+        result.failed++;
+        result.deferred += queue.length;
+        console.warn(`[warn] 通知: ${rule.id} → ${target.id} の送信に失敗しました（次回再送）: ${e?.message || e}`);
+      }
+    }
+  }
+
+  if (!opts.dryRun) {
+    pruneState(state, now);
+    saveState(stateFile, state);
+    console.log(`通知: 送信 ${result.sent} 件 / 持ち越し ${result.deferred} 件${result.failed ? ` / 失敗 ${result.failed} 回` : ''}`);
+  }
+  return result;
+}
+
+/**
+ * 設定ファイルが無ければ通知しない（null）。形式が不正なら例外
+ */
+export function loadAlertConfig(file: string = ALERTS_JSON): AlertConfig | null {
+  if (!fs.existsSync(file)) return null;
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!raw || !Array.isArray(raw.targets) || !Array.isArray(raw.rules)) {
+    throw new Error(`通知ルールの形式が不正です（{ targets: [...], rules: [...] } を想定）: ${file}`);
+  }
+  const targetIds = new Set<string>();
+  for (const t of raw.targets) {
+    if (!t?.id || !t.url || !['json', 'slack'].includes(t.kind)) throw new Error(`通知先が不正です: ${JSON.stringify(t)}`);
+    targetIds.add(t.id);
+  }
+  for (const r of raw.rules) {
+    if (!r?.id || !r.match || typeof r.match !== 'object' || !Array.isArray(r.targets)) {
+      throw new Error(`通知ルールが不正です: ${JSON.stringify(r)}`);
+    }
+    const unknown = r.targets.filter((t: string) => !targetIds.has(t));
+    if (unknown.length) throw new Error(`通知ルール ${r.id} の送信先が定義されていません: ${unknown.join(', ')}`);
+  }
+  return raw as AlertConfig;
+}
+
+export function matchesRule(x: NewsItem, m: AlertMatch): boolean {
+  if (m.tickers?.length) {
+    const wanted = m.tickers.map(t => (/\.T$/i.test(t) ? t.toUpperCase() : `${t.toUpperCase()}.T`));
+    if (!(x.tickers || []).some(t => wanted.includes(t))) return false;
+  }
+  if (m.watchlists?.length && !(x.watchlists || []).some(w => m.watchlists!.includes(w))) return false;
+  if (m.types?.length && !m.types.includes(x.type || '')) return false;
+  if (m.keywords?.length) {
+    const text = normalize(`${x.title}\n${x.summary}`);
+    if (!m.keywords.some(k => text.includes(normalize(k)))) return false;
+  }
+  if (m.sources?.length) {
+    const source = normalize(x.source);
+    if (!m.sources.some(s => source.includes(normalize(s)))) return false;
+  }
+  if (m.minImportance !== undefined && (x.importance ?? 0) < m.minImportance) return false;
+  return true;
+}
+
+/**
+ * "env:変数名" を展開する。環境変数が未設定の送信先は使わない
+ * （1つも設定されていなければ通知自体を使っていないとみなし、警告も出さない）
+ */
+function resolveTargets(config: AlertConfig): Map<string, AlertTarget> {
+  const out = new Map<string, AlertTarget>();
+  const missing: string[] = [];
+  for (const t of config.targets) {
+    const env = t.url.match(/^env:(\w+)$/);
+    const url = env ? process.env[env[1]] || '' : t.url;
+    if (url) out.set(t.id, { ...t, url });
+    else missing.push(`${t.id}（${env![1]}）`);
+  }
+  if (out.size > 0 && missing.length > 0) console.warn(`[warn] 通知: 環境変数が未設定の送信先を使いません: ${missing.join(', ')}`);
+  return out;
+}
+
+function loadState(file: string): AlertState {
+  const empty: AlertState = { sent: {}, lastSentAt: {}, pending: {} };
+  if (!fs.existsSync(file)) return empty;
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return { ...empty, ...raw };
+  } catch {
+    // 壊れた記録は作り直す（同じ項目を再送しうるが、通知が止まるよりよい）
+    console.warn(`通知: 送信記録を読めないため作り直します: ${file}`);
+    return empty;
+  }
+}
+
+function hasPending(file: string): boolean {
+  if (!fs.existsSync(file)) return false;
+  return Object.values(loadState(file).pending).some(list => Array.isArray(list) && list.length > 0);
+}
+
+function pruneState(state: AlertState, now: Date) {
+  const limit = new Date(now.getTime() - SENT_RETENTION_DAYS * 24 * 60 * MINUTE_MS).toISOString();
+  for (const [key, at] of Object.entries(state.sent)) {
+    if (at < limit) delete state.sent[key];
+  }
+}
+
+function saveState(file: string, state: AlertState) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  atomicWriteFile(file, JSON.stringify(state, null, 2) + '\n');
+}
+
+function uniqueById(items: NewsItem[]): NewsItem[] {
+  const seen = new Set<string>();
+  return items.filter(x => !seen.has(x.id) && !!seen.add(x.id));
+}
+
+function normalize(s: string | undefined): string {
+  return (s || '').normalize('NFKC').toLowerCase();
+}
@@ -0,0 +1,68 @@
+import { NewsItem } from '../lib/schema';
+
+/**
+ * 通知の送信（alerts.ts から使う）
+ *   json   汎用 Webhook。{ rule, items, sentAt } をそのまま POST する
+ *   slack  Slack の Incoming Webhook 互換（{ text }）。Mattermost 等の互換サーバにもそのまま送れる
+ *   ALERT_TIMEOUT_MS  1リクエストあたりのタイムアウト（既定 10000）
+ * 送信先はローカルの HTTP サーバ（http://127.0.0.1:<port>/）でもよい
+ */
+
+export type TargetKind = 'json' | 'slack';
+
+export type AlertRuleRef = {
+  id: string;
+  name: string;
+};
+
+const TIMEOUT_MS = parseInt(process.env.ALERT_TIMEOUT_MS || '10000', 10);
+
+// Slack の1メッセージに並べる最大件数（超えた分は件数だけ書く）
+const SLACK_MAX_LINES = 10;
+
+export function buildPayload(kind: TargetKind, rule: AlertRuleRef, items: NewsItem[], now: Date = new Date()): unknown {
+  return kind === 'slack' ? slackPayload(rule, items) : jsonPayload(rule, items, now);
+}
+
+export async function postWebhook(url: string, payload: unknown): Promise<void> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`Webhook がエラーを返しました: ${res.status} ${(await res.text()).slice(0, 200)}`);
+}
+
+function jsonPayload(rule: AlertRuleRef, items: NewsItem[], now: Date) {
+  return {
+    rule,
+    sentAt: now.toISOString(),
+    items: items.map(x => ({
+      id: x.id,
+      title: x.title,
+      url: x.url,
+      source: x.source,
+      publishedAt: x.publishedAt,
+      category: x.category,
+      type: x.type ?? null,
+      tickers: x.tickers || [],
+      importance: x.importance ?? null,
+      summary: x.summary,
+    })),
+  };
+}
+
+function slackPayload(rule: AlertRuleRef, items: NewsItem[]) {
+  const lines = items.slice(0, SLACK_MAX_LINES).map(x => {
+    const extra = [x.source, ...(x.tickers || []), x.importance ? `重要度${x.importance}` : ''].filter(Boolean).join('・');
+    return `• <${x.url}|${slackEscape(x.title)}>（${slackEscape(extra)}）`;
+  });
+  if (items.length > SLACK_MAX_LINES) lines.push(`ほか ${items.length - SLACK_MAX_LINES} 件`);
+  return { text: `*【${slackEscape(rule.name)}】* ${items.length} 件\n${lines.join('\n')}` };
+}
+
+// Slack の mrkdwn で特別な意味を持つ文字
+function slackEscape(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,144 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { ItemClassification } from '../lib/schema';
+
+/**
+ * ルールベースの分類器（scripts/classify/rules.json）
+ * 見出し・要約・URL・ソースに正規表現ルールを当て、重みの合計で次を決める
+ *   category   company / market（決め手が無ければ null = 呼び出し側の既定に任せる）
+ *   type       earnings / disclosure / macro / fx / equityIndex（同上）
+ *   sentiment  positive / negative / neutral
+ *   finance    金融・経済に関係するか（X の投稿の取捨に使う）
+ *   severity   速報性・相場への影響の大きさ（当たったルールの severity の最大値。重要度スコアに使う）
+ * ルールを変えたら `npm run news -- classify --eval` でラベル付きコーパス（corpus.json）に対する精度を確認する
+ */
+
+export const RULES_JSON = process.env.CLASSIFIER_RULES_FILE || path.join('scripts', 'classify', 'rules.json');
+
+// 勝ったラベルの重み / (全ラベルの重み + PRIOR)。弱いルール1本だけの判定は確からしさを低く見積もる
+const PRIOR = 1;
+
+export type RuleField = 'title' | 'summary' | 'url' | 'source';
+export type Sentiment = 'positive' | 'negative' | 'neutral';
+
+export type Rule = {
+  id: string;
+  pattern: string;          // 正規表現（NFKC・小文字化した文字列に当てる）
+  fields?: RuleField[];     // 既定: title と summary
+  weight?: number;          // 既定 1
+  category?: 'company' | 'market';
+  type?: string;
+  sentiment?: 'positive' | 'negative';
+  finance?: boolean;
+  severity?: number;        // 0..2 目安（例: 上方修正 1、緊急・急落・為替介入 2）
+};
+
+export type ClassifierInput = {
+  title: string;
+  summary?: string;
+  url?: string;
+  source?: string;
+};
+
+export type Classification = {
+  category: 'company' | 'market' | null;
+  type: string | null;
+  sentiment: Sentiment;
+  finance: boolean;
+  severity: number;
+  confidence: number;   // type の判定（無ければ category の判定）の確からしさ 0..1
+  scores: Record<string, number>;  // 'category:company' / 'type:macro' / 'sentiment:negative' 等の重みの合計
+  matched: string[];    // 当たったルールの id
+};
+
+export type Classifier = {
+  classify: (input: ClassifierInput) => Classification;
+};
+
+export function loadRules(file: string = RULES_JSON): Rule[] {
+  if (!fs.existsSync(file)) throw new Error(`分類ルールが見つかりません: ${file}`);
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!raw || !Array.isArray(raw.rules)) throw new Error(`分類ルールの形式が不正です（{ rules: [...] } を想定）: ${file}`);
+  return raw.rules as Rule[];
+}
+
+export function createClassifier(rules: Rule[] = loadRules()): Classifier {
+  const compiled = rules.map(r => {
+    if (!r.id || !r.pattern) throw new Error(`分類ルールに id / pattern がありません: ${JSON.stringify(r)}`);
+    let re: RegExp;
+    try {
+      re = new RegExp(r.pattern, 'i');
+    } catch (e: any) {
+      throw new Error(`分類ルール ${r.id} の正規表現が不正です: ${e?.message || e}`);
+    }
+    return { rule: r, re, fields: r.fields?.length ? r.fields : ['title', 'summary'] as RuleField[], weight: r.weight ?? 1 };
+  });
+
+  return {
+    classify(input: ClassifierInput): Classification {
+      const text: Record<RuleField, string> = {
+        title: normalize(input.title),
+        summary: normalize(input.summary),
+        url: normalize(input.url),
+        source: normalize(input.source),
+      };
+      const scores: Record<string, number> = {};
+      const add = (key: string, w: number) => { scores[key] = (scores[key] || 0) + w; };
+      const matched: string[] = [];
+      let finance = false;
+      let severity = 0;
+
+      for (const c of compiled) {
+        if (!c.fields.some(f => c.re.test(text[f]))) continue;
+        matched.push(c.rule.id);
+        if (c.rule.category) add(`category:${c.rule.category}`, c.weight);
+        if (c.rule.type) add(`type:${c.rule.type}`, c.weight);
+        if (c.rule.sentiment) add(`sentiment:${c.rule.sentiment}`, c.weight);
+        // 種別・カテゴリに当たるもの（決算・為替・企業の動きなど）は金融関連とみなす
+        if (c.rule.finance || c.rule.type || c.rule.category) finance = true;
+        if (c.rule.severity) severity = Math.max(severity, c.rule.severity);
+      }
+
+      const category = pick(scores, 'category');
+      const type = pick(scores, 'type');
+      const net = (scores['sentiment:positive'] || 0) - (scores['sentiment:negative'] || 0);
+      const sentiment: Sentiment = net > 0 ? 'positive' : net < 0 ? 'negative' : 'neutral';
+      const decided = type || category;
+      return {
+        category: (category?.label as Classification['category']) ?? null,
+        type: type?.label ?? null,
+        sentiment,
+        finance,
+        severity,
+        confidence: decided ? Math.round((decided.score / (decided.total + PRIOR)) * 100) / 100 : 0,
+        scores,
+        matched,
+      };
+    },
+  };
+}
+
+/**
+ * news.json の項目に残す形（category / type は項目本体のフィールドに入れる）
+ */
+export function toItemClassification(c: Classification): ItemClassification {
+  return { sentiment: c.sentiment, severity: c.severity, confidence: c.confidence, rules: c.matched };
+}
+
+/**
+ * 次元（category / type）ごとに重みの最も大きいラベルを選ぶ。同点は先に現れたもの（ルールの並び順）
+ */
+function pick(scores: Record<string, number>, dim: string): { label: string; score: number; total: number } | null {
+  let best: { label: string; score: number } | null = null;
+  let total = 0;
+  for (const [key, score] of Object.entries(scores)) {
+    if (!key.startsWith(`${dim}:`)) continue;
+    total += score;
+    if (!best || score > best.score) best = { label: key.slice(dim.length + 1), score };
+  }
+  return best ? { ...best, total } : null;
+}
+
+function normalize(s: string | undefined): string {
+  return (s || '').normalize('NFKC').toLowerCase();
+}
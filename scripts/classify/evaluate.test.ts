@@ -0,0 +1,24 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateCorpus } from './evaluate';
+
+/**
+ * ラベル付きコーパス（corpus.json）に対する rules.json の精度（classify --eval と同じ評価）
+ * ルールやコーパスを変えて下回ったら、classify --eval で不一致の例を見て直す
+ */
+
+const MIN_ACCURACY: Record<string, number> = {
+  category: 0.9,
+  type: 0.9,
+  sentiment: 0.85,
+  finance: 0.95,
+};
+
+test('コーパスの各次元で最低限の正解率を保つ', () => {
+  const reports = evaluateCorpus();
+  assert.deepEqual(reports.map(r => r.dimension), Object.keys(MIN_ACCURACY));
+  for (const r of reports) {
+    assert.ok(r.accuracy >= MIN_ACCURACY[r.dimension],
+      `[${r.dimension}] 正解率 ${(r.accuracy * 100).toFixed(1)}% < ${MIN_ACCURACY[r.dimension] * 100}%（不一致 ${r.misses.length} 件）`);
+  }
+});
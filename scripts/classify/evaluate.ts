@@ -0,0 +1,90 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Classification, ClassifierInput, createClassifier, loadRules } from './classifier';
+
+/**
+ * ラベル付きコーパス（scripts/classify/corpus.json）で分類ルールの精度を測る
+ * 次元（category / type / sentiment / finance）ごとに、ラベル値別の適合率・再現率と不一致の例を表示する
+ */
+
+export const CORPUS_JSON = path.join('scripts', 'classify', 'corpus.json');
+
+type Dimension = 'category' | 'type' | 'sentiment' | 'finance';
+const DIMENSIONS: Dimension[] = ['category', 'type', 'sentiment', 'finance'];
+
+type CorpusItem = ClassifierInput & Partial<Record<Dimension, string | boolean | null>>;
+
+export type LabelStats = {
+  label: string;
+  predicted: number;  // その値と判定した件数
+  correct: number;    // うち正解
+  actual: number;     // 正解がその値の件数
+};
+
+export type DimensionReport = {
+  dimension: Dimension;
+  accuracy: number;
+  labels: LabelStats[];
+  misses: { title: string; expected: string; got: string; matched: string[] }[];
+};
+
+export function evaluateCorpus(corpusFile: string = CORPUS_JSON, rulesFile?: string): DimensionReport[] {
+  if (!fs.existsSync(corpusFile)) throw new Error(`コーパスが見つかりません: ${corpusFile}`);
+  const items: CorpusItem[] = JSON.parse(fs.readFileSync(corpusFile, 'utf-8')).items || [];
+  const classifier = createClassifier(loadRules(rulesFile));
+  const results = items.map(it => ({ it, c: classifier.classify(it) }));
+
+  return DIMENSIONS.map(dim => {
+    const labels = new Map<string, LabelStats>();
+    const stat = (label: string) => {
+      if (!labels.has(label)) labels.set(label, { label, predicted: 0, correct: 0, actual: 0 });
+      return labels.get(label)!;
+    };
+    const misses: DimensionReport['misses'] = [];
+    let total = 0;
+    let correct = 0;
+    for (const { it, c } of results) {
+      // ラベルの無い次元は評価しない（undefined と「決め手なし」の null は区別する）
+      if (it[dim] === undefined) continue;
+      const expected = String(it[dim]);
+      const got = String(predicted(c, dim));
+      total++;
+      stat(expected).actual++;
+      stat(got).predicted++;
+      if (expected === got) {
+        correct++;
+        stat(got).correct++;
+      } else {
+        misses.push({ title: it.title, expected, got, matched: c.matched });
+      }
+    }
+    return {
+      dimension: dim,
+      accuracy: total ? correct / total : 0,
+      labels: [...labels.values()].sort((a, b) => a.label.localeCompare(b.label)),
+      misses,
+    };
+  });
+}
+
+function predicted(c: Classification, dim: Dimension): string | boolean | null {
+  return c[dim];
+}
+
+export function printReport(reports: DimensionReport[]) {
+  for (const r of reports) {
+    console.log(`\n[${r.dimension}] 正解率 ${pct(r.accuracy)}`);
+    for (const l of r.labels) {
+      const precision = l.predicted ? pct(l.correct / l.predicted) : '-';
+      const recall = l.actual ? pct(l.correct / l.actual) : '-';
+      console.log(`  ${l.label.padEnd(12)} 適合率 ${precision.padStart(6)}（${l.correct}/${l.predicted}）  再現率 ${recall.padStart(6)}（${l.correct}/${l.actual}）`);
+    }
+    for (const m of r.misses) {
+      console.log(`  ✗ ${m.title}\n      正解 ${m.expected} / 判定 ${m.got}  [${m.matched.join(', ')}]`);
+    }
+  }
+}
+
+function pct(v: number): string {
+  return `${(v * 100).toFixed(1)}%`;
+}
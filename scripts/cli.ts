@@ -0,0 +1,317 @@
+import { parseArgs } from 'node:util';
+import { fetchPress } from './news/fetch-press';
+import { fetchTdnet } from './tdnet/fetch-tdnet';
+import { fetchX } from './x/fetch-top';
+import { migrateFile, validateFile } from './data/migrate';
+import { pruneNews } from './data/prune';
+import { archiveNews } from './data/archive';
+import { clusterNews } from './data/cluster';
+import { linkNews } from './data/link';
+import { scoreNews } from './data/score';
+import { summarizeNews } from './data/summarize';
+import { alertNews } from './data/alert';
+import { buildSite } from './site/build';
+import { buildFeeds } from './site/feeds';
+import { JobId, runDaemon } from './schedule/daemon';
+import { RunReport } from './health/report';
+import { reportHealth } from './health/status';
+import { createClassifier } from './classify/classifier';
+import { evaluateCorpus, printReport } from './classify/evaluate';
+import { importCompanyCsv } from './entities/master';
+import { printStats } from './data/stats';
+import { listBackups, restoreBackup } from './lib/store';
+import { extractFinancials, loadXbrlPackage, summarizeFinancials } from './tdnet/xbrl';
+
+/**
+ * news CLI（npm run news -- <command> [options]）
+ * 各フェッチャーの環境変数（PRESS_PER_SITE_LIMIT / TDNET_CODES / CLEAN_MODE 等）はフラグで上書きできる
+ * 終了コード: 1 = エラー / 2 = 取得はできたが抽出の異常を検知（fetch / health。health/report.ts）
+ */
+
+const USAGE = `使い方: npm run news -- <command> [options]
+
+コマンド:
+  fetch press|tdnet|x|all   ニュースを取得して news.json に追記
+  daemon                    ソースごとの間隔で取得し続ける常駐モード（東証の営業日・時間帯に合わせる）
+  validate                  news.json を検証（不正があれば exit 1）
+  migrate                   news.json を現行スキーマへ移行
+  prune                     古い項目を削除
+  archive                   古い項目を日付別シャード（assets/data/archive/）へ移動
+  cluster                   媒体をまたいだ同一ニュースのまとまり（clusterId）を付け直す
+  link                      企業名から tickers を付け直す（press / X の項目）
+  score                     重要度（importance / factors）を付け直す
+  summarize                 未要約の項目に要約・タグを付ける（SUMMARIZER の設定が必要）
+  alert                     直近の項目で通知ルール（scripts/alerts/rules.json）を評価して送る（送信済みは除く）
+  classify <見出し>         分類ルール（scripts/classify/rules.json）の判定結果を表示
+  classify --eval           ラベル付きコーパスで分類ルールの適合率・再現率を表示
+  master <csv>              企業マスタ（scripts/entities/companies.json）を CSV から更新
+  build                     カテゴリ・銘柄・日付ごとの静的ページと sitemap.xml を dist/（SITE_DIR）に生成
+  feeds                     RSS / Atom / JSON Feed（全体・カテゴリ別・銘柄別）を dist/（SITE_DIR）に生成
+  stats                     件数・内訳を表示
+  health                    ソースごとの直近の取得状況を表示し dist/status/index.html を生成（異常があれば exit 2）
+  restore [n|path]          バックアップから復元（既定: 最新。--list で一覧）
+  xbrl <zip|url>            TDnet の XBRL パッケージから業績数値を取り出して表示（news.json は変更しない）
+
+共通:
+  --dry-run                 news.json は書き換えず、追加/削除の差分を表示
+  --record / --replay       ページを記録 / 記録から再生（fetch のみ）
+  --watchlist <id,...>      使うウォッチリスト（assets/data/watchlists.json。既定: 全リスト、fetch のみ）
+
+fetch press:
+  --per-site-limit <n>      一覧ページごとの最大件数（既定 12）
+  --global-limit <n>        全体の最大件数（既定 60）
+  --min-company <n>         企業カテゴリの最低件数（既定 6）
+  --sources <id,...>        sources.json の id で対象を絞る
+  --concurrency <n>         記事ページを同時に開く数（既定 4。同じホストへは 1 秒以上あける）
+  --user-agent <ua>         User-Agent（既定: 環境変数 CRAWLER_USER_AGENT。robots.txt の照合にも使う）
+
+fetch tdnet:
+  --codes <code,...|all>    対象の銘柄コード（既定: ウォッチリストの銘柄。all で全銘柄）
+  --per-code-limit <n>      銘柄ごとの最大件数（既定 5）
+  --dates <YYYY-MM-DD,...>  巡回する日付別一覧（既定: 当日）
+  --no-xbrl                 決算短信等の XBRL を読まない
+
+fetch x:
+  --targets <@handle,...>   対象アカウント（既定: X_TARGETS とウォッチリストの xAccounts）
+  --per-account-limit <n>   アカウントごとの最大件数（既定 5）
+  --no-clean                取り込み前のダミー削除を行わない
+  --storage-state <path>    ログイン状態ファイル
+
+daemon:
+  --jobs <id,...>           実行するジョブ（press / tdnet / x / archive。既定: すべて）
+  --dry-run                 取得はせず、直近の実行予定を表示
+
+archive:
+  --keep-days <n>           news.json に残す日数（既定 2）
+  --retain-days <n>         シャードを残す日数（既定 0 = 無期限）
+
+build / feeds:
+  --site-url <url>          canonical / sitemap / フィードの基準 URL（既定: 環境変数 SITE_URL）
+
+summarize:
+  --limit <n>               新しい順に最大何件まで問い合わせるか（既定 50）
+
+health:
+  --json                    直近の実行記録を JSON で出力
+  --dry-run                 dist/status/index.html を書き出さない
+
+alert:
+  --since-hours <n>         公開からこの時間以内の項目を対象にする（既定 24）
+
+restore:
+  --list                    バックアップの一覧を表示
+
+prune:
+  --days <n>                これより古い項目を削除（既定 30）
+  --drop-undated            日付の無い項目も削除
+`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'help': { type: 'boolean', short: 'h' },
+      'dry-run': { type: 'boolean' },
+      'record': { type: 'boolean' },
+      'replay': { type: 'boolean' },
+      'watchlist': { type: 'string' },
+      'per-site-limit': { type: 'string' },
+      'global-limit': { type: 'string' },
+      'min-company': { type: 'string' },
+      'sources': { type: 'string' },
+      'concurrency': { type: 'string' },
+      'user-agent': { type: 'string' },
+      'codes': { type: 'string' },
+      'per-code-limit': { type: 'string' },
+      'dates': { type: 'string' },
+      'no-xbrl': { type: 'boolean' },
+      'targets': { type: 'string' },
+      'per-account-limit': { type: 'string' },
+      'no-clean': { type: 'boolean' },
+      'storage-state': { type: 'string' },
+      'days': { type: 'string' },
+      'drop-undated': { type: 'boolean' },
+      'list': { type: 'boolean' },
+      'keep-days': { type: 'string' },
+      'retain-days': { type: 'string' },
+      'limit': { type: 'string' },
+      'eval': { type: 'boolean' },
+      'site-url': { type: 'string' },
+      'since-hours': { type: 'string' },
+      'jobs': { type: 'string' },
+      'json': { type: 'boolean' },
+    },
+  });
+
+  const [command, target] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const dryRun = !!values['dry-run'];
+  const watchlists = toList(values['watchlist']);
+
+  switch (command) {
+    case 'fetch': {
+      const targets = target === 'all' ? ['press', 'tdnet', 'x'] : [target];
+      const reports: RunReport[] = [];
+      for (const t of targets) {
+        switch (t) {
+          case 'press':
+            reports.push(await fetchPress({
+              perSiteLimit: toInt(values['per-site-limit'], '--per-site-limit'),
+              globalLimit: toInt(values['global-limit'], '--global-limit'),
+              minCompanyItems: toInt(values['min-company'], '--min-company'),
+              sources: toList(values['sources']),
+              watchlists,
+              concurrency: toInt(values['concurrency'], '--concurrency'),
+              userAgent: values['user-agent'],
+              dryRun,
+            }));
+            break;
+          case 'tdnet':
+            reports.push(await fetchTdnet({
+              codes: toList(values['codes']),
+              watchlists,
+              perCodeLimit: toInt(values['per-code-limit'], '--per-code-limit'),
+              dates: toList(values['dates']),
+              xbrl: values['no-xbrl'] ? false : undefined,
+              dryRun,
+            }));
+            break;
+          case 'x':
+            reports.push(await fetchX({
+              targets: toList(values['targets']),
+              watchlists,
+              perAccountLimit: toInt(values['per-account-limit'], '--per-account-limit'),
+              clean: values['no-clean'] ? false : undefined,
+              storageState: values['storage-state'],
+              dryRun,
+            }));
+            break;
+          default:
+            throw new Error(`fetch の対象が不正です: ${t ?? '(なし)'}（press / tdnet / x / all）`);
+        }
+      }
+      // 検知があれば追記できていても 2（news:update は後続の archive / build を ; でつないで続ける）
+      if (reports.some(r => r.flags.length > 0)) process.exitCode = 2;
+      break;
+    }
+    case 'daemon':
+      await runDaemon({
+        jobs: toList(values['jobs']) as JobId[] | undefined,
+        watchlists,
+        siteUrl: values['site-url'],
+        dryRun,
+      });
+      break;
+    case 'validate':
+      if (!validateFile()) process.exitCode = 1;
+      break;
+    case 'migrate':
+      await migrateFile();
+      break;
+    case 'prune':
+      await pruneNews({
+        days: toInt(values['days'], '--days'),
+        dropUndated: !!values['drop-undated'],
+        dryRun,
+      });
+      break;
+    case 'archive':
+      await archiveNews({
+        keepDays: toInt(values['keep-days'], '--keep-days'),
+        retainDays: toInt(values['retain-days'], '--retain-days'),
+        dryRun,
+      });
+      break;
+    case 'cluster':
+      await clusterNews({ dryRun });
+      break;
+    case 'link':
+      await linkNews({ dryRun });
+      break;
+    case 'classify': {
+      if (values['eval']) {
+        printReport(evaluateCorpus());
+        break;
+      }
+      if (!target) throw new Error('classify には見出しを指定してください（コーパスで評価する場合は --eval）');
+      console.log(JSON.stringify(createClassifier().classify({ title: target }), null, 2));
+      break;
+    }
+    case 'score':
+      await scoreNews({ dryRun });
+      break;
+    case 'alert':
+      await alertNews({ sinceHours: toInt(values['since-hours'], '--since-hours'), dryRun });
+      break;
+    case 'summarize':
+      await summarizeNews({ limit: toInt(values['limit'], '--limit'), dryRun });
+      break;
+    case 'master': {
+      if (!target) throw new Error('master には CSV のパスを指定してください');
+      const r = importCompanyCsv(target, undefined, { dryRun });
+      console.log(`master${dryRun ? '(dry-run)' : ''}: ${r.total} 社（追加 ${r.added} / 更新 ${r.updated} / 削除 ${r.removed}）`);
+      break;
+    }
+    case 'build':
+      buildSite({ siteUrl: values['site-url'], dryRun });
+      break;
+    case 'feeds':
+      buildFeeds({ siteUrl: values['site-url'], dryRun });
+      break;
+    case 'stats':
+      printStats();
+      break;
+    case 'health':
+      if (!reportHealth({ json: !!values['json'], dryRun })) process.exitCode = 2;
+      break;
+    case 'restore': {
+      if (values['list']) {
+        const backups = listBackups();
+        if (backups.length === 0) console.log('バックアップはありません。');
+        backups.forEach((b, i) => console.log(`  ${i}: ${b}`));
+        break;
+      }
+      const which = target === undefined ? 0 : /^\d+$/.test(target) ? parseInt(target, 10) : target;
+      const src = await restoreBackup(which);
+      console.log(`復元しました: ${src}`);
+      break;
+    }
+    case 'xbrl': {
+      if (!target) throw new Error('xbrl には zip のパスか URL を指定してください');
+      const financials = extractFinancials(await loadXbrlPackage(target));
+      if (!financials) {
+        console.log('サマリー iXBRL から業績数値を取り出せませんでした。');
+        process.exitCode = 1;
+        break;
+      }
+      console.log(JSON.stringify(financials, null, 2));
+      console.log(summarizeFinancials(financials));
+      break;
+    }
+    default:
+      console.error(`不明なコマンドです: ${command}\n`);
+      console.log(USAGE);
+      process.exitCode = 1;
+  }
+}
+
+function toInt(v: string | undefined, flag: string): number | undefined {
+  if (v === undefined) return undefined;
+  const n = parseInt(v, 10);
+  if (Number.isNaN(n) || n < 0) throw new Error(`${flag} には 0 以上の整数を指定してください: ${v}`);
+  return n;
+}
+
+function toList(v: string | undefined): string[] | undefined {
+  if (v === undefined) return undefined;
+  return v.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
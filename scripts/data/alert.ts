@@ -0,0 +1,18 @@
+import { runAlerts } from '../alerts/alerts';
+import { readNewsFile } from '../lib/news-file';
+
+export type AlertNewsOptions = {
+  sinceHours?: number;  // 公開からこの時間以内の項目を対象にする（既定 24）
+  dryRun?: boolean;
+};
+
+/**
+ * news.json の直近の項目で通知ルールを評価して送る（ルールの確認・持ち越し分の再送に使う）
+ * 送信記録があるため、フェッチャーが既に送った項目は送り直さない
+ */
+export async function alertNews(opts: AlertNewsOptions = {}) {
+  const since = Date.now() - (opts.sinceHours ?? 24) * 60 * 60 * 1000;
+  const items = readNewsFile().filter(x => x.publishedAt && new Date(x.publishedAt).getTime() >= since);
+  console.log(`alert: 対象 ${items.length} 件`);
+  await runAlerts(items, { dryRun: opts.dryRun });
+}
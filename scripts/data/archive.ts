@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { NEWS_JSON, readNewsFile, serializeNewsFile } from '../lib/news-file';
+import { NewsItem, SCHEMA_VERSION } from '../lib/schema';
+import { atomicWriteFile, updateNewsFile } from '../lib/store';
+
+/**
+ * 保持ポリシーと日付別アーカイブ
+ *   news.json            直近 keepDays 日分のみ（フロントの既定表示で読むのはこれだけ）
+ *   archive/YYYY-MM-DD.json  それより古い項目を公開日（JST）ごとに分割
+ *   archive/manifest.json    シャードの一覧（新しい順）。フロントはこれを見て遅延読み込みする
+ * retainDays を指定した場合のみ、それを超えたシャードを削除する（既定 0 = 無期限）
+ */
+
+export const ARCHIVE_DIR = path.join(path.dirname(NEWS_JSON), 'archive');
+export const MANIFEST_JSON = path.join(ARCHIVE_DIR, 'manifest.json');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+export type ArchiveOptions = {
+  keepDays?: number;    // news.json に残す日数（既定 2）
+  retainDays?: number;  // アーカイブを残す日数（既定 0 = 無期限）
+  dryRun?: boolean;
+};
+
+export type ArchiveManifest = {
+  schemaVersion: number;
+  updatedAt: string;
+  days: { date: string; file: string; count: number }[];
+};
+
+export async function archiveNews(opts: ArchiveOptions = {}) {
+  const keepDays = opts.keepDays ?? 2;
+  const retainDays = opts.retainDays ?? 0;
+  const cutoff = Date.now() - keepDays * DAY_MS;
+
+  const moved = new Map<string, NewsItem[]>();
+  await updateNewsFile(items => {
+    const kept: NewsItem[] = [];
+    moved.clear();
+    for (const x of items) {
+      // 日付の無い項目は振り分け先が決まらないため news.json に残す（prune --drop-undated で削除可）
+      const t = x.publishedAt ? new Date(x.publishedAt).getTime() : NaN;
+      if (Number.isNaN(t) || t >= cutoff) {
+        kept.push(x);
+        continue;
+      }
+      const day = jstDateKey(t);
+      if (!moved.has(day)) moved.set(day, []);
+      moved.get(day)!.push(x);
+    }
+    if (moved.size === 0) return null;
+
+    // 先にシャードへ書いてから news.json から外す（途中で落ちても項目は失われない）
+    if (!opts.dryRun) {
+      for (const [day, list] of moved) appendToShard(day, list);
+    }
+    return kept;
+  }, { dryRun: opts.dryRun });
+
+  const movedCount = [...moved.values()].reduce((n, l) => n + l.length, 0);
+  if (opts.dryRun) {
+    for (const [day, list] of [...moved].sort()) console.log(`  ${day}: ${list.length} 件`);
+    console.log(`archive(dry-run): ${movedCount} 件を ${moved.size} 日分のシャードへ移動予定です。`);
+    return;
+  }
+
+  const expired = removeExpiredShards(retainDays);
+  writeManifest();
+  console.log(`archive: ${movedCount} 件を ${moved.size} 日分のシャードへ移動しました（期限切れシャード削除 ${expired} 件）。`);
+}
+
+function appendToShard(day: string, list: NewsItem[]) {
+  fs.mkdirSync(ARCHIVE_DIR, { recursive: true });
+  const file = shardPath(day);
+  const current = fs.existsSync(file) ? readNewsFile(file) : [];
+  const ids = new Set(current.map(x => x.id));
+  const merged = current.concat(list.filter(x => !ids.has(x.id)));
+  merged.sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''));
+  atomicWriteFile(file, serializeNewsFile(merged));
+}
+
+function removeExpiredShards(retainDays: number): number {
+  if (retainDays <= 0) return 0;
+  const limit = jstDateKey(Date.now() - retainDays * DAY_MS);
+  let removed = 0;
+  for (const day of listShardDays()) {
+    if (day < limit) {
+      fs.rmSync(shardPath(day), { force: true });
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * シャードの実ファイルから manifest.json を作り直す
+ */
+export function writeManifest() {
+  if (!fs.existsSync(ARCHIVE_DIR)) return;
+  const days = listShardDays().map(day => ({
+    date: day,
+    // フロントからの取得パス（サイトルート基準）
+    file: toPosix(shardPath(day)),
+    count: readNewsFile(shardPath(day)).length,
+  }));
+  const manifest: ArchiveManifest = { schemaVersion: SCHEMA_VERSION, updatedAt: new Date().toISOString(), days };
+  atomicWriteFile(MANIFEST_JSON, JSON.stringify(manifest, null, 2));
+}
+
+export function listShardDays(): string[] {
+  if (!fs.existsSync(ARCHIVE_DIR)) return [];
+  return fs.readdirSync(ARCHIVE_DIR)
+    .map(f => f.match(/^(\d{4}-\d{2}-\d{2})\.json$/))
+    .filter(Boolean)
+    .map(m => m![1])
+    .sort()
+    .reverse();
+}
+
+export function shardPath(day: string): string {
+  return path.join(ARCHIVE_DIR, `${day}.json`);
+}
+
+export function jstDateKey(t: number): string {
+  return new Date(t + JST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
@@ -0,0 +1,29 @@
+import { assignClusters } from '../lib/cluster';
+import { assignImportance } from '../lib/importance';
+import { updateNewsFile } from '../lib/store';
+
+export type ClusterOptions = {
+  dryRun?: boolean;
+};
+
+/**
+ * news.json 全体の clusterId を付け直す
+ * フェッチャーは追記のたびに付け直すので、通常は閾値を変えた後や手で項目を直した後にだけ使う
+ */
+export async function clusterNews(opts: ClusterOptions = {}) {
+  let changed = 0;
+  let clusters = 0;
+  const written = await updateNewsFile(items => {
+    // クラスタの大きさは重要度の要素なので合わせて付け直す
+    const next = assignImportance(assignClusters(items));
+    changed = next.filter((x, i) => x.clusterId !== items[i].clusterId).length;
+    clusters = new Set(next.map(x => x.clusterId).filter(Boolean)).size;
+    return changed > 0 ? next : null;
+  }, { dryRun: opts.dryRun });
+
+  if (changed === 0) {
+    console.log(`cluster: 変更はありません（クラスタ ${clusters} 件）。`);
+    return;
+  }
+  if (written) console.log(`cluster: ${changed} 件の clusterId を更新しました（クラスタ ${clusters} 件）。`);
+}
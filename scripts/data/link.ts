@@ -0,0 +1,28 @@
+import { linkTickers } from '../entities/linker';
+import { assignClusters } from '../lib/cluster';
+import { assignImportance } from '../lib/importance';
+import { updateNewsFile } from '../lib/store';
+
+export type LinkOptions = {
+  dryRun?: boolean;
+};
+
+/**
+ * news.json 全体の press / X 項目に tickers を付け直す
+ * 企業マスタを更新した後や、リンク導入前に取り込んだ項目の補完に使う
+ */
+export async function linkNews(opts: LinkOptions = {}) {
+  let changed = 0;
+  const written = await updateNewsFile(items => {
+    const next = linkTickers(items);
+    changed = next.filter((x, i) => JSON.stringify(x.tickers || []) !== JSON.stringify(items[i].tickers || [])).length;
+    // ティッカーの一致はクラスタ判定に使うため付け直す
+    return changed > 0 ? assignImportance(assignClusters(next)) : null;
+  }, { dryRun: opts.dryRun });
+
+  if (changed === 0) {
+    console.log('link: tickers の変更はありません。');
+    return;
+  }
+  if (written) console.log(`link: ${changed} 件の tickers を更新しました。`);
+}
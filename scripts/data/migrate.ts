@@ -0,0 +1,80 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { NEWS_JSON } from '../lib/news-file';
+import { SCHEMA_VERSION, migrateItems, unwrapNewsFile, validateItems, ValidationIssue } from '../lib/schema';
+import { atomicWriteFile, updateNewsFile } from '../lib/store';
+
+/**
+ * news.json の移行・検証ツール
+ *   npm run data:migrate   旧形式を現行スキーマへ移行し、不正な項目を除外して書き戻す
+ *   npm run data:validate  書き込みはせず検証のみ（不正があれば exit 1）
+ *
+ * v3 への移行で id を振り直した場合、旧 id → 新 id の対応を id-map.json（news.json と同じ場所）に追記する
+ * ブックマーク等で旧 id を参照している側はこれで引き直せる
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const checkOnly = args.includes('--check');
+  const file = args.find(a => !a.startsWith('--')) || NEWS_JSON;
+
+  if (!fs.existsSync(file)) throw new Error(`news.json が見つかりません: ${file}`);
+
+  if (checkOnly) {
+    const ok = validateFile(file);
+    if (!ok) process.exit(1);
+    return;
+  }
+  await migrateFile(file);
+}
+
+export function validateFile(file: string = NEWS_JSON): boolean {
+  const { schemaVersion, items } = unwrapNewsFile(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  // 旧バージョンは移行後の姿で検証し、移行で除外される項目を示す
+  const outdated = schemaVersion !== SCHEMA_VERSION;
+  const issues = validateItems(outdated ? migrateItems(items, schemaVersion).items : items);
+  if (outdated) {
+    console.log(`検証: スキーマバージョンが古いです（${schemaVersion} → ${SCHEMA_VERSION}）。data:migrate を実行してください。`);
+  }
+  printIssues(issues);
+  console.log(`検証: ${items.length} 件中 ${issues.length} 件に問題があります。`);
+  return issues.length === 0 && schemaVersion === SCHEMA_VERSION;
+}
+
+export async function migrateFile(file: string = NEWS_JSON) {
+  const { schemaVersion, items } = unwrapNewsFile(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  const { idMap } = migrateItems(items, schemaVersion);
+
+  // 読み込み時に移行済み。補完しても不正な項目は除外（id 重複は後勝ちを捨てる）
+  let kept = 0;
+  let rejected = 0;
+  await updateNewsFile(migrated => {
+    const issues = validateItems(migrated);
+    const bad = new Set(issues.map(i => i.index));
+    printIssues(issues);
+    const out = migrated.filter((_, i) => !bad.has(i));
+    kept = out.length;
+    rejected = bad.size;
+    return out;
+  }, {}, file);
+  console.log(`移行: v${schemaVersion} → v${SCHEMA_VERSION}、${kept} 件を保存しました（除外 ${rejected} 件）。`);
+
+  if (Object.keys(idMap).length > 0) {
+    const mapPath = path.join(path.dirname(file), 'id-map.json');
+    const prev = fs.existsSync(mapPath) ? JSON.parse(fs.readFileSync(mapPath, 'utf-8')) : {};
+    atomicWriteFile(mapPath, JSON.stringify({ ...prev, ...idMap }, null, 2));
+    console.log(`移行: id の対応表を保存しました（${Object.keys(idMap).length} 件）: ${mapPath}`);
+  }
+}
+
+function printIssues(issues: ValidationIssue[]) {
+  for (const i of issues) {
+    console.warn(`  #${i.index} ${i.id || '(id なし)'}: ${i.errors.join(' / ')}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,35 @@
+import { NEWS_JSON } from '../lib/news-file';
+import { updateNewsFile } from '../lib/store';
+
+export type PruneOptions = {
+  days?: number;        // これより古い項目を削除（既定 30 日）
+  dropUndated?: boolean; // publishedAt が無い項目も削除する
+  dryRun?: boolean;
+};
+
+/**
+ * 古い項目を news.json から取り除く
+ */
+export async function pruneNews(opts: PruneOptions = {}) {
+  const days = opts.days ?? 30;
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+
+  let removed = 0;
+  let remaining = 0;
+  const written = await updateNewsFile(items => {
+    const kept = items.filter(x => {
+      if (!x.publishedAt) return !opts.dropUndated;
+      const t = new Date(x.publishedAt).getTime();
+      return Number.isNaN(t) || t >= cutoff;
+    });
+    removed = items.length - kept.length;
+    remaining = kept.length;
+    return removed > 0 ? kept : null;
+  }, { dryRun: opts.dryRun }, NEWS_JSON);
+
+  if (removed === 0) {
+    console.log(`prune: ${days} 日より古い項目はありません。`);
+    return;
+  }
+  if (written) console.log(`prune: ${removed} 件を削除しました（残り ${remaining} 件）。`);
+}
@@ -0,0 +1,25 @@
+import { assignImportance } from '../lib/importance';
+import { updateNewsFile } from '../lib/store';
+
+export type ScoreOptions = {
+  dryRun?: boolean;
+};
+
+/**
+ * news.json 全体の importance / factors を付け直す
+ * フェッチャーは追記のたびに付け直すので、通常は配点を変えた後や取得が止まっている間の鮮度の更新にだけ使う
+ */
+export async function scoreNews(opts: ScoreOptions = {}) {
+  let changed = 0;
+  const written = await updateNewsFile(items => {
+    const next = assignImportance(items);
+    changed = next.filter((x, i) => JSON.stringify([x.importance, x.factors]) !== JSON.stringify([items[i].importance, items[i].factors])).length;
+    return changed > 0 ? next : null;
+  }, { dryRun: opts.dryRun });
+
+  if (changed === 0) {
+    console.log('score: 変更はありません。');
+    return;
+  }
+  if (written) console.log(`score: ${changed} 件の importance を更新しました。`);
+}
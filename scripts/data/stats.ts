@@ -0,0 +1,41 @@
+import fs from 'node:fs';
+import { NEWS_JSON } from '../lib/news-file';
+import { migrateItem, unwrapNewsFile } from '../lib/schema';
+
+/**
+ * news.json の件数・内訳を表示する
+ */
+export function printStats(file: string = NEWS_JSON) {
+  const { schemaVersion, items: raw } = unwrapNewsFile(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  const items = raw.map(migrateItem);
+  const now = Date.now();
+
+  const dates = items
+    .map(x => (x.publishedAt ? new Date(x.publishedAt).getTime() : NaN))
+    .filter(t => !Number.isNaN(t));
+  const within24h = dates.filter(t => now - t >= 0 && now - t <= 24 * 60 * 60 * 1000).length;
+
+  console.log(`ファイル: ${file}（schemaVersion ${schemaVersion}）`);
+  console.log(`総件数: ${items.length}（24時間以内 ${within24h} / 日付なし ${items.length - dates.length}）`);
+  if (dates.length) {
+    console.log(`期間: ${new Date(Math.min(...dates)).toISOString()} 〜 ${new Date(Math.max(...dates)).toISOString()}`);
+  }
+  printBreakdown('カテゴリ', countBy(items, x => x.category));
+  printBreakdown('種別', countBy(items, x => x.type || '(なし)'));
+  printBreakdown('ソース（上位10）', countBy(items, x => x.source || '(なし)'), 10);
+}
+
+function countBy<T>(arr: T[], key: (t: T) => string): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const x of arr) {
+    const k = key(x);
+    m.set(k, (m.get(k) || 0) + 1);
+  }
+  return m;
+}
+
+function printBreakdown(label: string, counts: Map<string, number>, limit?: number) {
+  const rows = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit ?? counts.size);
+  console.log(`${label}:`);
+  for (const [k, n] of rows) console.log(`  ${k}: ${n}`);
+}
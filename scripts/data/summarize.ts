@@ -0,0 +1,37 @@
+import { summarizeItems } from '../enrich/summarize';
+import { createProvider } from '../enrich/provider';
+import { readNewsFile } from '../lib/news-file';
+import { updateNewsFile } from '../lib/store';
+
+export type SummarizeNewsOptions = {
+  limit?: number;   // 新しい順に最大何件まで問い合わせるか（既定 50）
+  dryRun?: boolean;
+};
+
+/**
+ * news.json の未要約の項目（summarizedBy が無いもの）に要約・タグを付ける
+ * プロバイダ導入前に取り込んだ項目の補完に使う。問い合わせはロックの外で行い、書き戻し時に id で反映する
+ */
+export async function summarizeNews(opts: SummarizeNewsOptions = {}) {
+  const provider = createProvider();
+  if (!provider) throw new Error('SUMMARIZER が未設定です（例: SUMMARIZER=openai SUMMARIZER_BASE_URL=...）');
+
+  const targets = readNewsFile()
+    .filter(x => !x.summarizedBy)
+    .sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''))
+    .slice(0, opts.limit ?? 50);
+  const done = new Map((await summarizeItems(targets, { provider }))
+    .filter(x => x.summarizedBy)
+    .map(x => [x.id, x]));
+
+  if (done.size === 0) {
+    console.log('summarize: 要約を付けた項目はありません。');
+    return;
+  }
+  const written = await updateNewsFile(items => items.map(x => {
+    const s = done.get(x.id);
+    // 問い合わせ中に別のフェッチャーが更新していても、要約とタグだけを反映する
+    return s && !x.summarizedBy ? { ...x, summary: s.summary, tags: s.tags, summarizedBy: s.summarizedBy } : x;
+  }), { dryRun: opts.dryRun });
+  if (written) console.log(`summarize: ${done.size} 件に要約を付けました。`);
+}
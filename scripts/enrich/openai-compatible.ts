@@ -0,0 +1,82 @@
+import { SummaryInput, SummaryProvider, SummaryResult } from './provider';
+import { TAG_VOCABULARY, normalizeTags } from './tags';
+
+/**
+ * OpenAI 互換の Chat Completions エンドポイントを使うプロバイダ
+ *   SUMMARIZER_BASE_URL    例: https://api.openai.com/v1, http://127.0.0.1:8080/v1（ローカルのモックサーバも可）
+ *   SUMMARIZER_API_KEY     Authorization: Bearer に入れる（不要なサーバなら未設定でよい）
+ *   SUMMARIZER_MODEL       既定 gpt-4o-mini
+ *   SUMMARIZER_TIMEOUT_MS  1件あたりのタイムアウト（既定 20000）
+ * 応答は JSON（{"summary": "...", "tags": [...]}）で返すよう指示し、前後に余計な文があっても中の JSON を読む
+ */
+
+export type OpenAiCompatibleOptions = {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+};
+
+const SYSTEM_PROMPT = [
+  'あなたは日本の金融ニュースの編集者です。',
+  '与えられた記事・投稿・開示について、事実のみに基づく2〜3文の日本語要約を作り、該当するタグを選んでください。',
+  '本文に無い推測・投資判断・誇張は書かないでください。',
+  `タグは次の語彙からのみ0〜4個選んでください: ${TAG_VOCABULARY.join(', ')}`,
+  '出力は JSON のみ: {"summary": "要約", "tags": ["タグ", ...]}',
+].join('\n');
+
+export function createOpenAiCompatibleProvider(opts: OpenAiCompatibleOptions = {}): SummaryProvider {
+  const baseUrl = (opts.baseUrl ?? process.env.SUMMARIZER_BASE_URL ?? '').replace(/\/+$/, '');
+  if (!baseUrl) throw new Error('SUMMARIZER_BASE_URL が未設定です（例: https://api.openai.com/v1）');
+  const apiKey = opts.apiKey ?? process.env.SUMMARIZER_API_KEY ?? '';
+  const model = opts.model ?? process.env.SUMMARIZER_MODEL ?? 'gpt-4o-mini';
+  const timeoutMs = opts.timeoutMs ?? parseInt(process.env.SUMMARIZER_TIMEOUT_MS || '20000', 10);
+
+  return {
+    name: `openai:${model}`,
+    async summarize(input: SummaryInput): Promise<SummaryResult> {
+      const res = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: formatInput(input) },
+          ],
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!res.ok) throw new Error(`要約 API がエラーを返しました: ${res.status} ${(await res.text()).slice(0, 200)}`);
+      const data: any = await res.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('要約 API の応答に本文がありません');
+      return parseContent(content);
+    },
+  };
+}
+
+function formatInput(input: SummaryInput): string {
+  return [
+    `媒体: ${input.source}`,
+    `分類: ${input.category}`,
+    `見出し: ${input.title}`,
+    `本文: ${input.text || '（なし）'}`,
+  ].join('\n');
+}
+
+/**
+ * 応答本文から JSON を取り出す（```json … ``` で囲まれていても読む）
+ */
+function parseContent(content: string): SummaryResult {
+  const m = content.match(/\{[\s\S]*\}/);
+  if (!m) throw new Error(`要約 API の応答が JSON ではありません: ${content.slice(0, 200)}`);
+  const obj = JSON.parse(m[0]);
+  const summary = typeof obj.summary === 'string' ? obj.summary.replace(/\s+/g, ' ').trim() : '';
+  if (!summary) throw new Error('要約 API の応答に summary がありません');
+  return { summary, tags: normalizeTags(obj.tags) };
+}
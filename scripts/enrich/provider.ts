@@ -0,0 +1,41 @@
+import { createOpenAiCompatibleProvider } from './openai-compatible';
+
+/**
+ * 要約・タグ付けのプロバイダ
+ * 取り込んだ項目ごとに 2〜3 文の日本語要約と、統制語彙（tags.ts）からのタグを作る
+ *   SUMMARIZER=openai   OpenAI 互換の HTTP エンドポイント（SUMMARIZER_BASE_URL 等。openai-compatible.ts）
+ *   SUMMARIZER=none     使わない（既定）
+ * バックエンドを増やすときは SummaryProvider を実装して createProvider に足す
+ */
+
+export type SummaryInput = {
+  title: string;
+  text: string;     // 本文に相当するもの（要約・投稿本文・開示の概要など）
+  source: string;
+  category: string;
+};
+
+export type SummaryResult = {
+  summary: string;
+  tags: string[];
+};
+
+export type SummaryProvider = {
+  name: string;       // キャッシュのキーに含める（例: "openai:gpt-4o-mini"）
+  summarize: (input: SummaryInput) => Promise<SummaryResult>;
+};
+
+/**
+ * 環境変数からプロバイダを作る。未設定・none なら null（要約しない）
+ */
+export function createProvider(kind: string = process.env.SUMMARIZER || 'none'): SummaryProvider | null {
+  switch (kind.toLowerCase()) {
+    case '':
+    case 'none':
+      return null;
+    case 'openai':
+      return createOpenAiCompatibleProvider();
+    default:
+      throw new Error(`SUMMARIZER が不正です: ${kind}（openai / none）`);
+  }
+}
@@ -0,0 +1,112 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { NewsItem } from '../lib/schema';
+import { testItem, withStubServer } from '../lib/test-helpers';
+import { createOpenAiCompatibleProvider } from './openai-compatible';
+import { summarizeItems } from './summarize';
+
+/**
+ * 要約（OpenAI 互換プロバイダ）をローカルの HTTP サーバ相手に動かす
+ * mode で応答を切り替える: ok は要約を返し、error は 500、stall は応答しない
+ */
+
+type Mode = 'ok' | 'error' | 'stall';
+
+const item = (id: string, title: string): NewsItem => testItem({ id, title, summary: `${title}の本文`, tags: ['速報'] });
+
+async function withServer(fn: (ctx: { baseUrl: string; setMode: (m: Mode) => void; requests: any[]; cacheFile: string }) => Promise<void>) {
+  let mode: Mode = 'ok';
+  const requests: any[] = [];
+  await withStubServer((req, body, res) => {
+    requests.push({ url: req.url, authorization: req.headers.authorization, body: JSON.parse(body) });
+    if (mode === 'stall') return; // 応答しない
+    if (mode === 'error') {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('internal error');
+      return;
+    }
+    const content = '```json\n{"summary": "トヨタが通期予想を上方修正した。", "tags": ["業績修正", "決算", "無関係なタグ"]}\n```';
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+  }, async ({ baseUrl, dir }) => {
+    await fn({
+      baseUrl: `${baseUrl}/v1`,
+      setMode: m => { mode = m; },
+      requests,
+      cacheFile: path.join(dir, 'summaries.json'),
+    });
+  });
+}
+
+test('要約とタグを付け、同じ内容は2回目以降キャッシュから返す', async () => {
+  await withServer(async ({ baseUrl, requests, cacheFile }) => {
+    const provider = createOpenAiCompatibleProvider({ baseUrl, apiKey: 'test-key', model: 'test-model', timeoutMs: 5000 });
+    const items = [item('a', 'トヨタ、通期予想を上方修正')];
+
+    const [x] = await summarizeItems(items, { provider, cacheFile });
+    assert.equal(x.summary, 'トヨタが通期予想を上方修正した。');
+    assert.deepEqual(x.tags, ['速報', '業績修正', '決算']);
+    assert.equal(x.summarizedBy, 'openai:test-model');
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].url, '/v1/chat/completions');
+    assert.equal(requests[0].authorization, 'Bearer test-key');
+    assert.equal(requests[0].body.model, 'test-model');
+
+    // 取り込み元や id が違っても、見出し・本文が同じならキャッシュを使う
+    const [y] = await summarizeItems([{ ...items[0], id: 'b', source: '別の通信' }], { provider, cacheFile });
+    assert.equal(y.summary, 'トヨタが通期予想を上方修正した。');
+    assert.equal(requests.length, 1);
+
+    // 要約済み・skipIds の項目は問い合わせない
+    await summarizeItems([x, item('c', '日銀、金融政策を据え置き')], { provider, cacheFile, skipIds: new Set(['c']) });
+    assert.equal(requests.length, 1);
+  });
+});
+
+test('タイムアウトした項目は元の要約のまま通す', async () => {
+  await withServer(async ({ baseUrl, setMode, requests, cacheFile }) => {
+    setMode('stall');
+    const provider = createOpenAiCompatibleProvider({ baseUrl, model: 'test-model', timeoutMs: 200 });
+    const items = [item('a', 'ソニー、自社株買いを発表')];
+
+    const out = await summarizeItems(items, { provider, cacheFile });
+    assert.deepEqual(out, items);
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].authorization, undefined);
+    // 失敗はキャッシュしない
+    assert.equal(fs.existsSync(cacheFile), false);
+  });
+});
+
+test('3回続けて失敗したら残りは問い合わせない', async () => {
+  await withServer(async ({ baseUrl, setMode, requests, cacheFile }) => {
+    setMode('error');
+    const provider = createOpenAiCompatibleProvider({ baseUrl, model: 'test-model', timeoutMs: 5000 });
+    const items = ['一', '二', '三', '四', '五'].map((s, i) => item(String(i), `ニュース${s}`));
+
+    const out = await summarizeItems(items, { provider, cacheFile });
+    assert.deepEqual(out, items);
+    assert.equal(requests.length, 3);
+  });
+});
+
+test('成功すると連続失敗の数え直しになる', async () => {
+  await withServer(async ({ baseUrl, setMode, requests, cacheFile }) => {
+    const provider = createOpenAiCompatibleProvider({ baseUrl, model: 'test-model', timeoutMs: 5000 });
+    const flaky = {
+      name: provider.name,
+      summarize: async (input: any) => {
+        // 3件目だけ成功させる
+        setMode(requests.length === 2 ? 'ok' : 'error');
+        return provider.summarize(input);
+      },
+    };
+    const items = ['一', '二', '三', '四', '五', '六'].map((s, i) => item(String(i), `ニュース${s}`));
+
+    const out = await summarizeItems(items, { provider: flaky, cacheFile });
+    assert.deepEqual(out.map(x => x.summarizedBy), [undefined, undefined, 'openai:test-model', undefined, undefined, undefined]);
+    assert.equal(requests.length, 6);
+  });
+});
@@ -0,0 +1,106 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { NewsItem } from '../lib/schema';
+import { atomicWriteFile } from '../lib/store';
+import { SummaryProvider, createProvider } from './provider';
+
+/**
+ * 取り込む項目へ要約とタグを付ける（プロバイダは provider.ts）
+ * 結果は内容（見出し・本文）とプロバイダ名のハッシュでキャッシュし、同じ内容は二度問い合わせない
+ * プロバイダが落ちていても取り込みは止めない: 失敗した項目は元の summary / tags のまま通し、
+ * 連続して失敗したら残りは問い合わせずに諦める
+ */
+
+export const SUMMARY_CACHE_JSON = process.env.SUMMARY_CACHE_FILE || path.join('.cache', 'summaries.json');
+
+// 連続でこの回数失敗したら、その回の残りは問い合わせない（タイムアウト待ちの積み重ねを避ける）
+const MAX_CONSECUTIVE_FAILURES = 3;
+// キャッシュに残す件数（古いものから捨てる）
+const CACHE_LIMIT = 5000;
+
+type CacheEntry = {
+  summary: string;
+  tags: string[];
+  provider: string;
+  createdAt: string;
+};
+
+type SummaryCache = Record<string, CacheEntry>;
+
+export type SummarizeOptions = {
+  provider?: SummaryProvider | null;
+  skipIds?: Set<string>;   // 既に news.json にある項目など、問い合わせ不要の id
+  cacheFile?: string;
+};
+
+export async function summarizeItems<T extends NewsItem>(items: T[], opts: SummarizeOptions = {}): Promise<T[]> {
+  const provider = opts.provider === undefined ? createProvider() : opts.provider;
+  if (!provider || items.length === 0) return items;
+
+  const cacheFile = opts.cacheFile ?? SUMMARY_CACHE_JSON;
+  const cache = loadCache(cacheFile);
+  let hits = 0;
+  let fetched = 0;
+  let failures = 0;
+  let skipped = 0;
+
+  const out: T[] = [];
+  for (const x of items) {
+    if (x.summarizedBy || opts.skipIds?.has(x.id)) { out.push(x); continue; }
+
+    const key = contentKey(provider.name, x);
+    let entry = cache[key];
+    if (entry) hits++;
+    else if (failures >= MAX_CONSECUTIVE_FAILURES) skipped++;
+    else {
+      try {
+        const r = await provider.summarize({ title: x.title, text: x.summary, source: x.source, category: x.category });
+        entry = { summary: r.summary, tags: r.tags, provider: provider.name, createdAt: new Date().toISOString() };
+        cache[key] = entry;
+        fetched++;
+        failures = 0;
+      } catch (e: any) {
+        failures++;
+        console.warn(`要約: 失敗しました（${x.id}）: ${e?.message || e}`);
+      }
+    }
+    out.push(entry ? applySummary(x, entry) : x);
+  }
+
+  if (fetched > 0) saveCache(cacheFile, cache);
+  if (skipped > 0) console.warn(`要約: ${provider.name} に接続できないため、${skipped} 件は要約せずに取り込みます。`);
+  console.log(`要約: ${provider.name} 問い合わせ ${fetched} 件 / キャッシュ ${hits} 件`);
+  return out;
+}
+
+function applySummary<T extends NewsItem>(x: T, entry: CacheEntry): T {
+  return { ...x, summary: entry.summary, tags: [...new Set([...x.tags, ...entry.tags])], summarizedBy: entry.provider };
+}
+
+/**
+ * 内容のハッシュ。見出し・本文が変わらなければ取り込み元や URL が違っても同じキーになる
+ */
+function contentKey(providerName: string, x: NewsItem): string {
+  return crypto.createHash('sha1').update([providerName, x.title, x.summary].join('\n')).digest('hex');
+}
+
+function loadCache(file: string): SummaryCache {
+  if (!fs.existsSync(file)) return {};
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+  } catch {
+    // 壊れたキャッシュは作り直す
+    console.warn(`要約: キャッシュを読めないため作り直します: ${file}`);
+    return {};
+  }
+}
+
+function saveCache(file: string, cache: SummaryCache) {
+  const entries = Object.entries(cache)
+    .sort(([, a], [, b]) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, CACHE_LIMIT);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  atomicWriteFile(file, JSON.stringify(Object.fromEntries(entries), null, 2) + '\n');
+}
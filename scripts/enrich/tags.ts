@@ -0,0 +1,42 @@
+/**
+ * 要約プロバイダが付けるタグの統制語彙
+ * 語彙を変えたら、過去のタグと混ざらないようキャッシュ（.cache/summaries.json）を消すこと
+ */
+
+// プロバイダが返したタグのうち、ここに無いものは捨てる
+export const TAG_VOCABULARY = [
+  '決算',
+  '業績修正',
+  '配当',
+  '自社株買い',
+  'M&A',
+  '提携',
+  '資金調達',
+  '新製品・サービス',
+  '人事',
+  '不祥事・訴訟',
+  'IPO・上場',
+  '金融政策',
+  '金利',
+  '為替',
+  '物価',
+  '景気指標',
+  '財政・規制',
+  '株式市場',
+  '債券市場',
+  '商品市況',
+  '暗号資産',
+  '海外',
+] as const;
+
+/**
+ * プロバイダの返したタグを統制語彙に寄せる（表記ゆれは NFKC と大文字小文字の違いのみ吸収）
+ */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const byKey = new Map<string, string>(TAG_VOCABULARY.map(t => [t.normalize('NFKC').toLowerCase(), t]));
+  const out = tags
+    .map(t => byKey.get(String(t).normalize('NFKC').trim().toLowerCase()))
+    .filter((t): t is string => !!t);
+  return [...new Set(out)];
+}
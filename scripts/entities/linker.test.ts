@@ -0,0 +1,46 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { NewsItem } from '../lib/schema';
+import { testItem } from '../lib/test-helpers';
+import { CompanyMaster } from './master';
+import { createLinker, linkTickers } from './linker';
+
+const MASTER: CompanyMaster = {
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  companies: [
+    { code: '4755', name: '楽天グループ', shortNames: ['楽天G', '楽天'], englishName: 'Rakuten Group, Inc.', aliases: [], excludes: ['楽天証券'], needsContext: true },
+    { code: '7203', name: 'トヨタ自動車', shortNames: ['トヨタ'], englishName: 'Toyota Motor Corporation', aliases: [] },
+    { code: '9434', name: 'ソフトバンク', shortNames: [], englishName: 'SoftBank Corp.', aliases: [], needsContext: true },
+    { code: '9984', name: 'ソフトバンクグループ', shortNames: ['ソフトバンクG', 'SBG'], englishName: 'SoftBank Group Corp.', aliases: [] },
+  ],
+};
+
+const item = (title: string, tickers?: string[]): NewsItem =>
+  testItem({ id: title, title, category: 'sns', source: 'X: @example', url: 'https://x.com/example/status/1', verified: false, ...(tickers ? { tickers } : {}) });
+
+const linked = (title: string) => linkTickers([item(title)], createLinker(MASTER))[0].tickers || [];
+
+test('社名・略称・コード表記', () => {
+  assert.deepEqual(linked('トヨタ、世界販売が過去最高'), ['7203.T']);
+  assert.deepEqual(linked('ソフトバンクグループの株価が急伸'), ['9984.T']);
+  assert.deepEqual(linked('通信大手(9434)が値上げ'), ['9434.T']);
+});
+
+test('球団名と重なる社名は、企業の文脈が無ければ tickers に入れない', () => {
+  assert.deepEqual(linked('【プロ野球結果】首位ソフトバンクが15安打8得点で4連勝'), []);
+  assert.deepEqual(linked('ソフトバンクの4～6月期決算、増収増益'), ['9434.T']);
+  // 照合の記録は低い確からしさで残る
+  const [x] = linkTickers([item('楽天が逆転勝ち')], createLinker(MASTER));
+  assert.deepEqual(x.tickerMatches?.map(m => [m.ticker, m.confidence]), [['4755.T', 0.5]]);
+});
+
+test('除外語の一部として出てきた略称は照合しない', () => {
+  assert.deepEqual(linked('楽天証券、ログイン追加認証を必須化'), []);
+  assert.deepEqual(linked('楽天証券の親会社、楽天グループが決算発表'), ['4755.T']);
+});
+
+test('tickers は照合結果から作り直す（誤ったリンクが残らない）', () => {
+  const [x] = linkTickers([item('楽天証券、ログイン追加認証を必須化', ['4755.T'])], createLinker(MASTER));
+  assert.deepEqual(x.tickers, []);
+  assert.equal(x.tickerMatches, undefined);
+});
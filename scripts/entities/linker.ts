@@ -0,0 +1,176 @@
+import { NewsItem, TickerMatch } from '../lib/schema';
+import { CompanyEntry, CompanyMaster, loadCompanyMaster } from './master';
+
+/**
+ * 企業名 → 証券コードのエンティティリンク
+ * タイトル・要約から企業マスタの正式名称・略称・英文名・別名と「(7203)」形式のコードを探し、
+ * tickers（"NNNN.T"）を補う。照合の根拠と確からしさは tickerMatches に残す
+ *
+ * 確からしさ（confidence）の目安
+ *   コード表記 0.99 / 正式名称 0.95 / 英文名 0.85 / 略称 0.8 / 別名 0.75
+ *   3文字以下の英字（"JT", "ANA" 等）は -0.2、要約だけに出てくる場合は -0.1
+ *   マスタで needsContext の企業（球団名・人名と重なる社名）は、決算・株価等の語が無ければ -0.3
+ * マスタの excludes（例: 楽天 → "楽天証券"）の一部として出てきた表記は照合しない
+ * MIN_CONFIDENCE 以上のものだけを tickers に入れる
+ */
+
+const MIN_CONFIDENCE = parseFloat(process.env.ENTITY_MIN_CONFIDENCE || '0.7');
+
+// 企業の話題であることを示す語（needsContext の企業に使う。正規化後の小文字で照合）
+const COMPANY_CONTEXT_RE = /株価|株式|株主|決算|業績|上場|銘柄|増益|減益|増収|減収|最高益|配当|買収|提携|出資|子会社|社長|会長|通期|四半期|売上|営業利益|純利益|時価総額|tob|ipo/;
+
+const BASE_CONFIDENCE: Record<TickerMatch['via'], number> = {
+  code: 0.99,
+  name: 0.95,
+  english: 0.85,
+  shortName: 0.8,
+  alias: 0.75,
+};
+
+type Term = {
+  surface: string;  // 正規化済みの表記
+  ticker: string;
+  via: TickerMatch['via'];
+  ascii: boolean;
+  excludes: string[];
+  needsContext: boolean;
+};
+
+export type Linker = {
+  link: (title: string, summary?: string) => TickerMatch[];
+};
+
+export function createLinker(master: CompanyMaster = loadCompanyMaster()): Linker {
+  const codes = new Set(master.companies.map(c => c.code));
+  const terms: Term[] = [];
+  const seen = new Map<string, Term>();
+  const add = (raw: string, c: CompanyEntry, via: Term['via']) => {
+    const surface = normalize(raw).trim();
+    if (surface.length < 2) return;
+    const prev = seen.get(surface);
+    // 同じ表記が複数社にあれば、根拠の強い方（正式名称 > 略称 …）を採る
+    if (prev && BASE_CONFIDENCE[prev.via] >= BASE_CONFIDENCE[via]) return;
+    const term: Term = {
+      surface,
+      ticker: `${c.code}.T`,
+      via,
+      ascii: /^[\x20-\x7e]+$/.test(surface),
+      excludes: (c.excludes || []).map(e => normalize(e).trim()).filter(Boolean),
+      needsContext: !!c.needsContext,
+    };
+    if (prev) terms.splice(terms.indexOf(prev), 1, term);
+    else terms.push(term);
+    seen.set(surface, term);
+  };
+  for (const c of master.companies) {
+    add(c.name, c, 'name');
+    if (c.englishName) add(c.englishName, c, 'english');
+    for (const s of c.shortNames || []) add(s, c, 'shortName');
+    for (const a of c.aliases || []) add(a, c, 'alias');
+  }
+  // 長い表記から先に照合し、短い表記が長い表記の一部に当たるのを防ぐ（例: ソフトバンクグループ / ソフトバンク）
+  terms.sort((a, b) => b.surface.length - a.surface.length);
+
+  const scan = (text: string, companyContext: boolean): Map<string, TickerMatch> => {
+    const found = new Map<string, TickerMatch>();
+    const s = normalize(text.replace(/https?:\/\/\S+/g, ' ').replace(/@\w+/g, ' '));
+    const take = (m: TickerMatch) => {
+      const prev = found.get(m.ticker);
+      if (!prev || prev.confidence < m.confidence) found.set(m.ticker, m);
+    };
+
+    // (7203) / <7203> / 7203.T 形式のコード表記
+    const codeRe = /[(<\[【]\s*(\d[0-9a-z]\d[0-9a-z])\s*[)>\]】]|\b(\d[0-9a-z]\d[0-9a-z])\.t\b/g;
+    let cm: RegExpExecArray | null;
+    while ((cm = codeRe.exec(s))) {
+      const code = (cm[1] || cm[2]).toUpperCase();
+      if (codes.has(code)) take({ ticker: `${code}.T`, matched: cm[0].trim(), via: 'code', confidence: BASE_CONFIDENCE.code });
+    }
+
+    const claimed: [number, number][] = [];
+    for (const t of terms) {
+      let from = 0;
+      for (;;) {
+        const at = s.indexOf(t.surface, from);
+        if (at < 0) break;
+        from = at + 1;
+        const end = at + t.surface.length;
+        if (claimed.some(([a, b]) => at < b && end > a)) continue;
+        if (!isBoundary(s, at, end, t.ascii)) continue;
+        if (isExcluded(s, at, end, t.excludes)) continue;
+        claimed.push([at, end]);
+        let confidence = BASE_CONFIDENCE[t.via];
+        if (t.ascii && t.surface.replace(/[^a-z0-9]/g, '').length <= 3) confidence -= 0.2;
+        if (t.needsContext && !companyContext) confidence -= 0.3;
+        take({ ticker: t.ticker, matched: t.surface, via: t.via, confidence: round(confidence) });
+      }
+    }
+    return found;
+  };
+
+  return {
+    link(title: string, summary = '') {
+      const companyContext = COMPANY_CONTEXT_RE.test(normalize(`${title} ${summary}`));
+      const inTitle = scan(title, companyContext);
+      const inSummary = scan(summary, companyContext);
+      for (const [ticker, m] of inSummary) {
+        if (inTitle.has(ticker)) continue;
+        inTitle.set(ticker, { ...m, confidence: round(m.confidence - 0.1) });
+      }
+      return [...inTitle.values()].sort((a, b) => b.confidence - a.confidence);
+    },
+  };
+}
+
+/**
+ * press / X の項目に tickers と tickerMatches を付ける（TDnet の項目はコードが確定しているので触らない）
+ * press / X の tickers は照合結果だけから毎回作り直す（マスタを直して link をやり直せば誤ったリンクも消える）
+ */
+export function linkTickers<T extends NewsItem>(items: T[], linker: Linker = createLinker()): T[] {
+  return items.map(x => {
+    if (x.disclosure) return x;
+    const matches = linker.link(x.title, x.summary);
+    const { tickerMatches, tickers, ...rest } = x;
+    const linked = [...new Set(matches.filter(m => m.confidence >= MIN_CONFIDENCE).map(m => m.ticker))];
+    return {
+      ...rest,
+      ...(tickers || linked.length ? { tickers: linked } : {}),
+      ...(matches.length ? { tickerMatches: matches } : {}),
+    } as T;
+  });
+}
+
+function normalize(s: string): string {
+  return (s || '').normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 表記の前後が別の語の続きでないか
+ *   英字: 前後が英数字でないこと
+ *   カタカナで始まる/終わる表記: 前後がカタカナでないこと（ソニー / ソニーフィナンシャル）
+ */
+function isBoundary(s: string, start: number, end: number, ascii: boolean): boolean {
+  const before = s[start - 1] || '';
+  const after = s[end] || '';
+  if (ascii) return !/[a-z0-9]/.test(before) && !/[a-z0-9]/.test(after);
+  const kana = /[ァ-ヺー]/;
+  if (kana.test(s[start]) && kana.test(before)) return false;
+  if (kana.test(s[end - 1]) && kana.test(after)) return false;
+  return true;
+}
+
+/**
+ * 表記が除外語（例: "楽天証券"）の中に出てきたものか
+ */
+function isExcluded(s: string, start: number, end: number, excludes: string[]): boolean {
+  return excludes.some(e => {
+    for (let at = s.indexOf(e); at >= 0; at = s.indexOf(e, at + 1)) {
+      if (at <= start && at + e.length >= end) return true;
+    }
+    return false;
+  });
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,181 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { atomicWriteFile } from '../lib/store';
+
+/**
+ * 上場企業マスタ（エンティティリンク用）
+ *   scripts/entities/companies.json  { updatedAt, companies: CompanyEntry[] }
+ * 略称・別名・除外語・文脈の要否は手で追記してよい。CSV からの更新（importCompanyCsv）でも手書きの値は残す
+ */
+
+export const COMPANIES_JSON = process.env.COMPANIES_FILE || path.join('scripts', 'entities', 'companies.json');
+
+export type CompanyEntry = {
+  code: string;          // 4桁（英字入り可。例: "7203", "285A"）
+  name: string;          // 正式名称（例: "トヨタ自動車"）
+  shortNames: string[];  // 略称（例: ["トヨタ"]）
+  englishName: string;   // 例: "Toyota Motor Corporation"
+  aliases: string[];     // その他の呼び名・旧社名・ブランド名
+  excludes?: string[];   // この語の一部として出てきた表記は照合しない（例: 楽天 → "楽天証券"）
+  needsContext?: boolean; // 社名が球団名・人名等と重なる。決算・株価等の語が無ければ tickers に入れない
+};
+
+export type CompanyMaster = {
+  updatedAt: string;
+  companies: CompanyEntry[];
+};
+
+const CODE_RE = /^\d[0-9A-Z]\d[0-9A-Z]$/;
+
+// CSV の列名（表記ゆれ込み）。JPX の上場銘柄一覧（data_j）を CSV 保存したものもそのまま読める
+// 除外語・文脈の要否は CSV では持たない（マスタに手で書いた値を残す）
+const COLUMNS: Record<Exclude<keyof CompanyEntry, 'excludes' | 'needsContext'> | 'market', string[]> = {
+  code: ['code', 'コード', '証券コード', '銘柄コード'],
+  name: ['name', '銘柄名', '会社名', '正式名称'],
+  shortNames: ['shortnames', 'short_names', '略称'],
+  englishName: ['englishname', 'english_name', 'english name', '英文名', '英語名'],
+  aliases: ['aliases', '別名'],
+  market: ['market', '市場・商品区分', '市場区分'],
+};
+
+// 企業ではない上場商品は取り込まない
+const NON_COMPANY_MARKET_RE = /ETF|ETN|REIT|インフラファンド|出資証券/i;
+
+export function loadCompanyMaster(file: string = COMPANIES_JSON): CompanyMaster {
+  if (!fs.existsSync(file)) throw new Error(`企業マスタが見つかりません: ${file}`);
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!raw || !Array.isArray(raw.companies)) throw new Error(`企業マスタの形式が不正です: ${file}`);
+  return raw as CompanyMaster;
+}
+
+export type ImportResult = {
+  added: number;
+  updated: number;
+  removed: number;
+  total: number;
+};
+
+/**
+ * CSV から企業マスタを作り直す
+ * CSV に無いコードは上場廃止とみなして削除し、既存の略称・別名は CSV の値と合わせて残す
+ */
+export function importCompanyCsv(csvPath: string, file: string = COMPANIES_JSON, opts: { dryRun?: boolean } = {}): ImportResult {
+  const rows = parseCsv(decodeText(fs.readFileSync(csvPath)));
+  if (rows.length < 2) throw new Error(`CSV にデータ行がありません: ${csvPath}`);
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const col = (key: keyof typeof COLUMNS) => header.findIndex(h => COLUMNS[key].includes(h));
+  const idx = {
+    code: col('code'),
+    name: col('name'),
+    shortNames: col('shortNames'),
+    englishName: col('englishName'),
+    aliases: col('aliases'),
+    market: col('market'),
+  };
+  if (idx.code < 0 || idx.name < 0) throw new Error(`CSV にコード列・銘柄名列が見つかりません: ${rows[0].join(',')}`);
+
+  const current = fs.existsSync(file) ? loadCompanyMaster(file).companies : [];
+  const byCode = new Map(current.map(c => [c.code, c]));
+  const next = new Map<string, CompanyEntry>();
+  let added = 0;
+  let updated = 0;
+
+  for (const r of rows.slice(1)) {
+    let code = (r[idx.code] || '').normalize('NFKC').trim().toUpperCase();
+    // TDnet 等の5桁表記（末尾のチェック用 0）は4桁に揃える
+    if (code.length === 5 && code.endsWith('0')) code = code.slice(0, 4);
+    const name = (r[idx.name] || '').normalize('NFKC').trim();
+    if (!CODE_RE.test(code) || !name) continue;
+    if (idx.market >= 0 && NON_COMPANY_MARKET_RE.test(r[idx.market] || '')) continue;
+
+    const prev = byCode.get(code);
+    const entry: CompanyEntry = {
+      code,
+      name,
+      shortNames: uniq([...splitCell(r[idx.shortNames]), ...deriveShortNames(name), ...(prev?.shortNames || [])]).filter(s => s !== name),
+      englishName: (idx.englishName >= 0 ? (r[idx.englishName] || '').trim() : '') || prev?.englishName || '',
+      aliases: uniq([...splitCell(r[idx.aliases]), ...(prev?.aliases || [])]),
+      ...(prev?.excludes?.length ? { excludes: prev.excludes } : {}),
+      ...(prev?.needsContext ? { needsContext: true } : {}),
+    };
+    if (!prev) added++;
+    else if (JSON.stringify(prev) !== JSON.stringify(entry)) updated++;
+    next.set(code, entry);
+  }
+
+  // 他社の正式名称と同じ略称は外す（例: ソフトバンクグループの略称「ソフトバンク」）
+  const officialNames = new Set([...next.values()].map(c => c.name));
+  for (const c of next.values()) c.shortNames = c.shortNames.filter(s => !officialNames.has(s));
+
+  const removed = current.filter(c => !next.has(c.code)).length;
+  const companies = [...next.values()].sort((a, b) => a.code.localeCompare(b.code));
+  if (!opts.dryRun) {
+    const master: CompanyMaster = { updatedAt: new Date().toISOString(), companies };
+    atomicWriteFile(file, JSON.stringify(master, null, 2) + '\n');
+  }
+  return { added, updated, removed, total: companies.length };
+}
+
+/**
+ * 正式名称から機械的に作れる略称（例: "ニトリホールディングス" → "ニトリ", "ニトリHD"）
+ */
+export function deriveShortNames(name: string): string[] {
+  const out: string[] = [];
+  const base = name.replace(/^株式会社|株式会社$/g, '').trim();
+  const m = base.match(/^(.{2,}?)\s*(ホールディングス|グループ|フィナンシャルグループ|フィナンシャル・グループ)$/);
+  if (m) {
+    out.push(m[1]);
+    if (m[2] === 'ホールディングス') out.push(`${m[1]}HD`);
+    if (m[2] === 'グループ') out.push(`${m[1]}G`);
+  }
+  return out.filter(s => s !== name);
+}
+
+function splitCell(v: string | undefined): string[] {
+  return (v || '').split(/[;|／]/).map(s => s.normalize('NFKC').trim()).filter(Boolean);
+}
+
+function uniq(list: string[]): string[] {
+  return [...new Set(list)];
+}
+
+// JPX の一覧を Excel で CSV 保存すると Shift_JIS になるため、UTF-8 として読めなければ Shift_JIS とみなす
+function decodeText(buf: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buf).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('shift_jis').decode(buf);
+  }
+}
+
+/**
+ * RFC 4180 相当の CSV パーサ（ダブルクォート・改行入りセル対応）
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+      continue;
+    }
+    if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(c => c.trim())) rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += ch;
+  }
+  row.push(cell);
+  if (row.some(c => c.trim())) rows.push(row);
+  return rows;
+}
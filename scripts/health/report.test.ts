@@ -0,0 +1,54 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createCalendar } from '../schedule/calendar';
+import { RunReport, SourceStats, baselineFor, checkRun } from './report';
+
+/**
+ * 抽出の崩れの検知（過去の同じ条件の実行の中央値と比べる）
+ * 祝日の影響を受けないよう、休日なしのカレンダーで平日の同じ時刻の実行を並べる
+ */
+
+const calendar = createCalendar([]);
+
+const source = (itemsExtracted: number): SourceStats => ({
+  source: '日経',
+  pagesVisited: 3,
+  linksSeen: 20,
+  itemsExtracted,
+  undated: 0,
+  duplicates: 0,
+  errors: [],
+});
+
+// 2026-01-05（月）〜 の平日 10:00 JST
+const run = (day: number, itemsExtracted: number, extra: Partial<RunReport> = {}): RunReport => ({
+  fetcher: 'press',
+  startedAt: new Date(Date.UTC(2026, 0, day, 1, 0)).toISOString(),
+  finishedAt: new Date(Date.UTC(2026, 0, day, 1, 5)).toISOString(),
+  mode: 'live',
+  dryRun: false,
+  appended: itemsExtracted,
+  sources: [source(itemsExtracted)],
+  flags: [],
+  ...extra,
+});
+
+test('過去の中央値の 2 割未満なら collapsed', () => {
+  const history = [run(5, 10), run(6, 12), run(7, 11)];
+  assert.deepEqual(checkRun(run(8, 1), history, calendar).map(f => f.reason), ['collapsed']);
+  assert.deepEqual(checkRun(run(8, 8), history, calendar), []);
+});
+
+test('dry-run・再生・失敗した実行は平常値に入れない', () => {
+  const history = [
+    run(5, 10),
+    run(6, 12),
+    run(7, 0, { dryRun: true }),
+    run(7, 0, { mode: 'replay' }),
+    run(7, 0, { error: 'timeout' }),
+  ];
+  assert.equal(baselineFor(run(8, 1), '日経', history, calendar), null);
+
+  const usual = baselineFor(run(9, 1), '日経', history.concat(run(8, 11, { dryRun: true }), run(8, 14)), calendar);
+  assert.deepEqual(usual, { linksSeen: 20, itemsExtracted: 12, runs: 3 });
+});
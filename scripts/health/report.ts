@@ -0,0 +1,204 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { NewsItem } from '../lib/schema';
+import { atomicWriteFile } from '../lib/store';
+import { RUN_MODE, RunMode } from '../lib/replay';
+import { MarketCalendar, createCalendar, formatJst, jstMinutes } from '../schedule/calendar';
+
+/**
+ * フェッチャーの実行記録（ソースごとの取得状況）と、抽出の崩れの検知
+ * サイトの改修でセレクタが外れても「抽出 0 件」のまま正常終了してしまうため、
+ * 実行ごとに記録を残し、同じ条件の過去の実行と比べて件数が落ち込んだソースを知らせる
+ *   記録     .cache/health/runs.jsonl（1行1実行。HISTORY_DAYS 日分を残す）
+ *   比較対象 同じフェッチャー・同じソースで、営業日/休業日が同じかつ時刻（日本時間）が前後 2 時間以内の実行
+ *            （TDnet の一覧は1日のうちに増えていき、X は夜間・休日に投稿が減るため）
+ *   検知     ページは開けたのにリンクが 0 / リンクはあるのに抽出 0 / 失敗のみで抽出 0 / 過去の中央値の 2 割未満
+ * 検知があった実行は fetch の終了コードを 2 にする（cli.ts）。再生モードの実行は記録しない
+ */
+
+export const HEALTH_DIR = process.env.HEALTH_DIR || path.join('.cache', 'health');
+export const RUNS_JSONL = path.join(HEALTH_DIR, 'runs.jsonl');
+
+const HISTORY_DAYS = 30;
+// 比較に使う範囲と件数
+const BASELINE_DAYS = 14;
+const BASELINE_WINDOW_MINUTES = 120;
+const MIN_BASELINE_RUNS = 3;
+// 中央値がこれ未満のソースは件数の増減が大きいので落ち込みを判定しない
+const MIN_BASELINE_ITEMS = 3;
+const COLLAPSE_RATIO = 0.2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type FetcherId = 'press' | 'tdnet' | 'x';
+
+export type SourceStats = {
+  source: string;          // press: ソース名 / tdnet: "TDnet" / x: "X: @handle"
+  pagesVisited: number;    // 開けた一覧・記事ページ、読んだフィード
+  linksSeen: number;       // 記事として扱ったリンク・一覧の行・ポスト
+  itemsExtracted: number;  // 項目として取り出せた数（期間・銘柄で絞る前）
+  undated: number;         // 日付が取れなかった数（press は 24 時間の判定ができないため捨てる）
+  duplicates: number;      // 同じ実行内での重複と、news.json に既にあった数
+  errors: string[];
+};
+
+export type HealthFlag = {
+  source: string;          // 実行全体の失敗は "*"
+  reason: 'failed' | 'no-links' | 'no-items' | 'errors' | 'collapsed';
+  message: string;
+};
+
+export type RunReport = {
+  fetcher: FetcherId;
+  startedAt: string;
+  finishedAt: string;
+  mode: RunMode;
+  dryRun: boolean;
+  appended: number;
+  error?: string;
+  sources: SourceStats[];
+  flags: HealthFlag[];
+};
+
+export type RunRecorder = {
+  report: RunReport;
+  source: (name: string) => SourceStats;
+  error: (name: string, e: unknown) => void;
+};
+
+export function startRun(fetcher: FetcherId, opts: { dryRun?: boolean } = {}): RunRecorder {
+  const report: RunReport = {
+    fetcher,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    mode: RUN_MODE,
+    dryRun: !!opts.dryRun,
+    appended: 0,
+    sources: [],
+    flags: [],
+  };
+  const source = (name: string) => {
+    let s = report.sources.find(x => x.source === name);
+    if (!s) {
+      s = { source: name, pagesVisited: 0, linksSeen: 0, itemsExtracted: 0, undated: 0, duplicates: 0, errors: [] };
+      report.sources.push(s);
+    }
+    return s;
+  };
+  return {
+    report,
+    source,
+    error: (name, e: any) => { source(name).errors.push(String(e?.message || e).split('\n')[0]); },
+  };
+}
+
+/**
+ * news.json への追記で落とした項目（既存と重複）をソースごとに数える
+ */
+export function countDuplicates(run: RunRecorder, candidates: NewsItem[], appended: NewsItem[], sourceOf: (x: NewsItem) => string = x => x.source) {
+  const ids = new Set(appended.map(x => x.id));
+  for (const x of candidates) {
+    if (!ids.has(x.id)) run.source(sourceOf(x)).duplicates++;
+  }
+  run.report.appended = appended.length;
+}
+
+/**
+ * 実行を締めて過去の記録と比べ、記録に追記する。失敗で終わった実行は error を渡す
+ */
+export function finishRun(run: RunRecorder, error?: unknown): RunReport {
+  const report = run.report;
+  report.finishedAt = new Date().toISOString();
+  if (error) report.error = String((error as any)?.message || error).split('\n')[0];
+
+  // 再生は記録済みの応答なので、実サイトの状態として残さない
+  if (report.mode === 'replay') return report;
+
+  try {
+    const history = readRuns();
+    report.flags = checkRun(report, history, createCalendar());
+    saveRuns(history.concat(report));
+  } catch (e: any) {
+    console.warn(`[warn] 実行記録: ${e?.message || e}`);
+  }
+  printRun(report);
+  return report;
+}
+
+export function readRuns(file: string = RUNS_JSONL): RunReport[] {
+  if (!fs.existsSync(file)) return [];
+  const out: RunReport[] = [];
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      out.push(JSON.parse(line));
+    } catch {
+      // 書きかけの行は読み飛ばす
+    }
+  }
+  return out;
+}
+
+function saveRuns(runs: RunReport[], file: string = RUNS_JSONL) {
+  const limit = new Date(Date.now() - HISTORY_DAYS * DAY_MS).toISOString();
+  const kept = runs.filter(r => r.startedAt >= limit);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  atomicWriteFile(file, kept.map(r => JSON.stringify(r)).join('\n') + '\n');
+}
+
+export function checkRun(report: RunReport, history: RunReport[], calendar: MarketCalendar): HealthFlag[] {
+  const flags: HealthFlag[] = [];
+  if (report.error) flags.push({ source: '*', reason: 'failed', message: `実行が失敗しました: ${report.error}` });
+
+  for (const s of report.sources) {
+    const usual = baselineFor(report, s.source, history, calendar);
+
+    if (s.itemsExtracted === 0 && s.errors.length > 0) {
+      flags.push({ source: s.source, reason: 'errors', message: `取得に失敗し、抽出 0 件でした（${s.errors[0]}）` });
+    } else if (s.pagesVisited > 0 && s.linksSeen === 0 && (!usual || usual.linksSeen > 0)) {
+      flags.push({ source: s.source, reason: 'no-links', message: `ページは開けましたが、記事のリンクが見つかりません（リンクのセレクタ・URL パターンを確認）` });
+    } else if (s.linksSeen > 0 && s.itemsExtracted === 0 && (!usual || usual.itemsExtracted > 0)) {
+      flags.push({ source: s.source, reason: 'no-items', message: `リンク ${s.linksSeen} 件から1件も抽出できません（うち日付なし ${s.undated} 件。日付・本文のセレクタを確認）` });
+    } else if (usual && usual.itemsExtracted >= MIN_BASELINE_ITEMS && s.itemsExtracted < usual.itemsExtracted * COLLAPSE_RATIO) {
+      flags.push({ source: s.source, reason: 'collapsed', message: `抽出 ${s.itemsExtracted} 件（同じ条件の過去 ${usual.runs} 回の中央値 ${usual.itemsExtracted} 件）` });
+    }
+  }
+  return flags;
+}
+
+/**
+ * ソースの平常値（過去の実行の中央値）。比較できる記録が足りなければ null
+ */
+export function baselineFor(report: RunReport, source: string, history: RunReport[], calendar: MarketCalendar): { linksSeen: number; itemsExtracted: number; runs: number } | null {
+  const past = history
+    .filter(r => isComparable(r, report, calendar))
+    .flatMap(r => r.sources.filter(x => x.source === source && x.pagesVisited > 0));
+  if (past.length < MIN_BASELINE_RUNS) return null;
+  return {
+    linksSeen: median(past.map(x => x.linksSeen)),
+    itemsExtracted: median(past.map(x => x.itemsExtracted)),
+    runs: past.length,
+  };
+}
+
+function isComparable(r: RunReport, report: RunReport, calendar: MarketCalendar): boolean {
+  // dry-run は追記しない（重複の数え方も変わる）ので平常値に入れない
+  if (r.fetcher !== report.fetcher || r.mode === 'replay' || r.dryRun || r.error || r === report) return false;
+  const a = new Date(r.startedAt);
+  const b = new Date(report.startedAt);
+  if (a >= b || b.getTime() - a.getTime() > BASELINE_DAYS * DAY_MS) return false;
+  if (calendar.isTradingDay(a) !== calendar.isTradingDay(b)) return false;
+  const diff = Math.abs(jstMinutes(a) - jstMinutes(b));
+  return Math.min(diff, 24 * 60 - diff) <= BASELINE_WINDOW_MINUTES;
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function printRun(report: RunReport) {
+  const total = report.sources.reduce((n, s) => n + s.itemsExtracted, 0);
+  console.log(`実行記録: ${report.fetcher} ${formatJst(new Date(report.startedAt))} ソース ${report.sources.length} / 抽出 ${total} 件 / 追記 ${report.appended} 件`);
+  for (const f of report.flags) console.warn(`[health] ${report.fetcher} ${f.source}: ${f.message}`);
+}
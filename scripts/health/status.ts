@@ -0,0 +1,125 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { atomicWriteFile } from '../lib/store';
+import { SITE_NAME, escapeHtml } from '../site/render';
+import { SITE_DIR, siteDir } from '../site/build';
+import { formatJst } from '../schedule/calendar';
+import { FetcherId, HealthFlag, RunReport, SourceStats, readRuns } from './report';
+
+/**
+ * ソースの稼働状況（npm run news -- health）
+ *   各フェッチャーの直近の実行をソースごとに表示し、静的ページと同じ SITE_DIR（既定 dist/）の status/index.html に書き出す
+ *   直近の実行に検知（report.ts の HealthFlag）があれば終了コード 2
+ */
+
+export const STATUS_HTML = path.join(SITE_DIR, 'status', 'index.html');
+
+const FETCHERS: FetcherId[] = ['press', 'tdnet', 'x'];
+// ソースごとに並べる直近の抽出件数
+const TREND_RUNS = 12;
+
+export type HealthOptions = {
+  json?: boolean;     // 直近の実行記録を JSON で出力する
+  dryRun?: boolean;   // status/index.html を書き出さない
+};
+
+/**
+ * 直近の実行に検知があれば false
+ */
+export function reportHealth(opts: HealthOptions = {}): boolean {
+  const runs = readRuns();
+  const latest = latestRuns(runs);
+
+  if (opts.json) {
+    console.log(JSON.stringify(latest, null, 2));
+  } else if (latest.length === 0) {
+    console.log('health: 実行記録がありません（fetch / daemon の実行後に記録されます）。');
+  } else {
+    for (const r of latest) {
+      console.log(`${r.fetcher}: ${formatJst(new Date(r.startedAt))}（追記 ${r.appended} 件${r.error ? ` / 失敗: ${r.error}` : ''}）`);
+      for (const s of r.sources) {
+        const flag = r.flags.find(f => f.source === s.source);
+        console.log(`  ${flag ? '✗' : '✓'} ${s.source}: ページ ${s.pagesVisited} / リンク ${s.linksSeen} / 抽出 ${s.itemsExtracted} / 日付なし ${s.undated} / 重複 ${s.duplicates} / エラー ${s.errors.length}${flag ? ` … ${flag.message}` : ''}`);
+      }
+    }
+  }
+
+  if (!opts.dryRun) {
+    writeStatusPage(runs);
+    if (!opts.json) console.log(`health: ${STATUS_HTML} を書き出しました。`);
+  }
+
+  const flagged = latest.filter(r => r.flags.length > 0);
+  if (flagged.length && !opts.json) console.warn(`[health] 抽出の異常: ${flagged.map(r => `${r.fetcher}（${r.flags.map(f => f.source).join(', ')}）`).join(' / ')}`);
+  return flagged.length === 0;
+}
+
+export function writeStatusPage(runs: RunReport[] = readRuns()) {
+  siteDir(); // 出力先の確認（リポジトリのルートへは書かない）
+  fs.mkdirSync(path.dirname(STATUS_HTML), { recursive: true });
+  atomicWriteFile(STATUS_HTML, renderStatusPage(latestRuns(runs), runs));
+}
+
+/**
+ * フェッチャーごとの直近の実行（再生モードは記録されない）
+ */
+function latestRuns(runs: RunReport[]): RunReport[] {
+  return FETCHERS
+    .map(f => runs.filter(r => r.fetcher === f).sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0])
+    .filter(Boolean);
+}
+
+function renderStatusPage(latest: RunReport[], runs: RunReport[]): string {
+  const sections = latest.map(r => {
+    const rows = r.sources.map(s => renderSourceRow(s, r.flags.find(f => f.source === s.source), trendOf(runs, r.fetcher, s.source)));
+    const failed = r.flags.find(f => f.source === '*');
+    return `<section class="section">
+  <h2 class="section-title">${escapeHtml(r.fetcher)}</h2>
+  <p class="card-meta">${escapeHtml(formatJst(new Date(r.startedAt)))}（日本時間）・追記 ${r.appended} 件${r.dryRun ? '・dry-run' : ''}</p>
+  ${failed ? `<p class="notice status-bad">${escapeHtml(failed.message)}</p>` : ''}
+  <table class="status-table">
+    <thead><tr><th>ソース</th><th>状態</th><th>ページ</th><th>リンク</th><th>抽出</th><th>日付なし</th><th>重複</th><th>エラー</th><th>抽出の推移（古い→新しい）</th></tr></thead>
+    <tbody>
+${rows.join('\n')}
+    </tbody>
+  </table>
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <meta name="robots" content="noindex" />
+  <title>取得状況 | ${escapeHtml(SITE_NAME)}</title>
+  <link rel="stylesheet" href="../assets/styles.css" />
+</head>
+<body>
+  <main class="container">
+    <h1 class="page-heading">取得状況</h1>
+    <p class="card-meta">各フェッチャーの直近の実行（${escapeHtml(formatJst(new Date()))} 時点）。✗ は過去の同じ時間帯と比べて抽出が落ち込んだソースです。</p>
+${sections.length ? sections.join('\n') : '    <p class="notice">実行記録がありません。</p>'}
+    <p><a href="../">${escapeHtml(SITE_NAME)}へ戻る</a></p>
+  </main>
+</body>
+</html>
+`;
+}
+
+function renderSourceRow(s: SourceStats, flag: HealthFlag | undefined, trend: number[]): string {
+  const state = flag
+    ? `<span class="status-bad" title="${escapeHtml(flag.message)}">✗ ${escapeHtml(flag.reason)}</span>`
+    : '<span class="status-ok">✓</span>';
+  const errors = s.errors.length ? `<span title="${escapeHtml(s.errors.join('\n'))}">${s.errors.length}</span>` : '0';
+  return `      <tr><td>${escapeHtml(s.source)}</td><td>${state}</td><td>${s.pagesVisited}</td><td>${s.linksSeen}</td><td>${s.itemsExtracted}</td><td>${s.undated}</td><td>${s.duplicates}</td><td>${errors}</td><td>${trend.join(' ')}</td></tr>`;
+}
+
+function trendOf(runs: RunReport[], fetcher: FetcherId, source: string): number[] {
+  return runs
+    .filter(r => r.fetcher === fetcher)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+    .map(r => r.sources.find(s => s.source === source)?.itemsExtracted)
+    .filter((n): n is number => n !== undefined)
+    .slice(-TREND_RUNS);
+}
@@ -0,0 +1,58 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { NewsItem } from './schema';
+import { testItem } from './test-helpers';
+import { assignClusters, normalizeTitle } from './cluster';
+
+/**
+ * 媒体をまたいだ同一ニュースのまとめ（見出しの文字 bigram の近さ・公開時刻の近さ）
+ */
+
+const T0 = new Date('2026-01-05T00:00:00Z');
+const hours = (n: number) => new Date(T0.getTime() + n * 60 * 60 * 1000).toISOString();
+
+const item = (id: string, title: string, source: string, publishedAt = T0.toISOString(), extra: Partial<NewsItem> = {}): NewsItem =>
+  testItem({ id, title, source, publishedAt, ...extra });
+
+const clusterIds = (items: NewsItem[]) => assignClusters(items).map(x => x.clusterId);
+
+test('別の媒体のほぼ同じ見出しは、最も早い項目の id でまとめる', () => {
+  const items = [
+    item('b', '【速報】トヨタ自動車、通期の業績予想を上方修正 - 時事通信', '時事通信', hours(1)),
+    item('a', 'トヨタ自動車、通期の業績予想を上方修正', '共同通信'),
+  ];
+  assert.deepEqual(clusterIds(items), ['a', 'a']);
+});
+
+test('無関係な見出しはまとめない', () => {
+  const items = [
+    item('a', 'トヨタ自動車、通期の業績予想を上方修正', '共同通信'),
+    item('b', '日銀、金融政策決定会合で政策金利を据え置き', '時事通信', hours(1)),
+  ];
+  assert.deepEqual(clusterIds(items), [undefined, undefined]);
+});
+
+test('公開時刻が 12 時間より離れていればまとめない', () => {
+  const title = 'トヨタ自動車、通期の業績予想を上方修正';
+  assert.deepEqual(clusterIds([item('a', title, '共同通信'), item('b', title, '時事通信', hours(12))]), ['a', 'a']);
+  assert.deepEqual(clusterIds([item('a', title, '共同通信'), item('b', title, '時事通信', hours(12.5))]), [undefined, undefined]);
+});
+
+test('同じ媒体の続報・別の銘柄・短い見出しはまとめない', () => {
+  const title = 'トヨタ自動車、通期の業績予想を上方修正';
+  assert.deepEqual(clusterIds([item('a', title, '共同通信'), item('b', title, '共同通信', hours(1))]), [undefined, undefined]);
+  assert.deepEqual(clusterIds([
+    item('a', title, '共同通信', T0.toISOString(), { tickers: ['7203.T'] }),
+    item('b', title, '時事通信', hours(1), { tickers: ['7267.T'] }),
+  ]), [undefined, undefined]);
+  assert.deepEqual(clusterIds([item('a', 'マーケット情報', '共同通信'), item('b', 'マーケット情報', '時事通信')]), [undefined, undefined]);
+});
+
+test('付け直すときは前回の clusterId を外す', () => {
+  const [x] = assignClusters([item('a', 'トヨタ自動車、通期の業績予想を上方修正', '共同通信', T0.toISOString(), { clusterId: 'old' })]);
+  assert.equal('clusterId' in x, false);
+});
+
+test('比較用の正規化は見出し記号・媒体名・URL・記号を除く', () => {
+  assert.equal(normalizeTitle('【速報】ＴＯＹＯＴＡ、上方修正 https://t.co/xyz - 時事通信'), 'toyota上方修正');
+});
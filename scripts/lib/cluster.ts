@@ -0,0 +1,103 @@
+import { NewsItem } from './schema';
+
+/**
+ * 媒体をまたいだ同一ニュースのクラスタリング
+ * 正規化したタイトルの文字 bigram 類似度（Dice 係数）・公開時刻の近さ・ティッカーの一致で判定し、
+ * 2件以上まとまったものに clusterId（クラスタ内で最も早い項目の id）を付ける
+ * 日本語は分かち書きせずに比較できるよう、単語ではなく文字 bigram を使う
+ */
+
+const SIMILARITY_THRESHOLD = 0.5;
+const TICKER_BONUS = 0.15;
+const TIME_WINDOW_MS = 12 * 60 * 60 * 1000;
+// 短い見出し（「マーケット情報」等）は偶然一致しやすいため比較しない
+const MIN_BIGRAMS = 8;
+
+/**
+ * items の clusterId を付け直した新しい配列を返す（元の配列は変更しない）
+ */
+export function assignClusters(items: NewsItem[]): NewsItem[] {
+  const entries = items.map((x, i) => ({
+    i,
+    t: x.publishedAt ? new Date(x.publishedAt).getTime() : NaN,
+    grams: bigrams(normalizeTitle(x.title)),
+    tickers: new Set(x.tickers || []),
+  }));
+
+  // 時刻順に並べ、TIME_WINDOW_MS 以内の組だけを比較する
+  const dated = entries.filter(e => !Number.isNaN(e.t) && e.grams.size >= MIN_BIGRAMS).sort((a, b) => a.t - b.t);
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let a = 0; a < dated.length; a++) {
+    for (let b = a + 1; b < dated.length && dated[b].t - dated[a].t <= TIME_WINDOW_MS; b++) {
+      const x = dated[a];
+      const y = dated[b];
+      if (items[x.i].source === items[y.i].source) continue; // 同一媒体の続報はまとめない
+      if (similarity(x, y) >= SIMILARITY_THRESHOLD) parent[find(y.i)] = find(x.i);
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  for (const e of dated) {
+    const root = find(e.i);
+    if (!members.has(root)) members.set(root, []);
+    members.get(root)!.push(e.i);
+  }
+
+  const clusterOf = new Map<number, string>();
+  for (const list of members.values()) {
+    if (list.length < 2) continue;
+    // dated は時刻順なので先頭が最も早い報道
+    const leadId = items[list[0]].id;
+    for (const i of list) clusterOf.set(i, leadId);
+  }
+
+  return items.map((x, i) => {
+    const { clusterId, ...rest } = x;
+    const id = clusterOf.get(i);
+    return id ? { ...rest, clusterId: id } : rest;
+  });
+}
+
+function similarity(
+  x: { grams: Set<string>; tickers: Set<string> },
+  y: { grams: Set<string>; tickers: Set<string> }
+): number {
+  // 両方にティッカーがあり、共通が無ければ別の銘柄の話とみなす
+  let shared = false;
+  if (x.tickers.size && y.tickers.size) {
+    shared = [...x.tickers].some(t => y.tickers.has(t));
+    if (!shared) return 0;
+  }
+  return dice(x.grams, y.grams) + (shared ? TICKER_BONUS : 0);
+}
+
+/**
+ * 比較用のタイトル正規化
+ * 全角/半角の統一（NFKC）、URL・@ハンドル・【速報】等の見出し記号・媒体名の後置きを除去
+ */
+export function normalizeTitle(s: string): string {
+  return (s || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/@[a-z0-9_]+/g, ' ')
+    .replace(/[【\[][^】\]]{1,8}[】\]]/g, ' ')
+    .replace(/\s[-|｜]\s[^-|｜]{1,20}$/, ' ')
+    .replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+function bigrams(s: string): Set<string> {
+  const out = new Set<string>();
+  const chars = [...s];
+  for (let i = 0; i < chars.length - 1; i++) out.add(chars[i] + chars[i + 1]);
+  return out;
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let inter = 0;
+  for (const g of a) if (b.has(g)) inter++;
+  return (2 * inter) / (a.size + b.size);
+}
@@ -0,0 +1,80 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { isAllowed, parseRobots } from './crawl';
+
+/**
+ * robots.txt の読み取り（どのグループを使うか・Crawl-delay）と、パスごとの許可の判定
+ */
+
+const UA = 'fin-news-site/1.0';
+const allowed = (text: string, path: string, userAgent = UA) => isAllowed(parseRobots(text, userAgent), path);
+
+test('Allow と Disallow は長く一致した方、同じ長さなら Allow', () => {
+  const robots = [
+    'User-agent: *',
+    'Disallow: /news/',
+    'Allow: /news/public/',
+    'Disallow: /news/public/draft',
+    'Allow: /ir',
+    'Disallow: /ir',
+  ].join('\n');
+  assert.equal(allowed(robots, '/news/2026/01.html'), false);
+  assert.equal(allowed(robots, '/news/public/01.html'), true);
+  assert.equal(allowed(robots, '/news/public/draft-01.html'), false);
+  assert.equal(allowed(robots, '/ir/2026.html'), true);
+  // どれにも当たらなければ許可
+  assert.equal(allowed(robots, '/about'), true);
+});
+
+test('* は任意の文字列、末尾の $ は終わりに一致', () => {
+  const robots = [
+    'User-agent: *',
+    'Disallow: /*.pdf$',
+    'Disallow: /search*q=',
+    'Disallow: /tmp$',
+  ].join('\n');
+  assert.equal(allowed(robots, '/ir/2026/q3.pdf'), false);
+  assert.equal(allowed(robots, '/ir/2026/q3.pdf?download=1'), true);
+  assert.equal(allowed(robots, '/search?lang=ja&q=決算'), false);
+  assert.equal(allowed(robots, '/search'), true);
+  assert.equal(allowed(robots, '/tmp'), false);
+  assert.equal(allowed(robots, '/tmp/a'), true);
+  // 先頭からの一致だけを見る
+  assert.equal(allowed(robots, '/archive/search?q=1'), true);
+});
+
+test('名前の一致するグループがあれば "*" のグループは使わない', () => {
+  const robots = [
+    'User-agent: *',
+    'Disallow: /',
+    '',
+    'User-agent: Fin-News-Site',
+    'Disallow: /private/',
+  ].join('\n');
+  assert.equal(allowed(robots, '/news/'), true);
+  assert.equal(allowed(robots, '/private/a'), false);
+  // 名前が一致しなければ "*" のグループ
+  assert.equal(allowed(robots, '/news/', 'other-bot/2.0'), false);
+});
+
+test('グループが無い・値の空な Disallow は制限なし', () => {
+  assert.equal(allowed('', '/news/'), true);
+  assert.equal(allowed('# comment only\nSitemap: https://example.com/sitemap.xml', '/news/'), true);
+  assert.equal(allowed('User-agent: *\nDisallow:', '/news/'), true);
+  // 他のクローラ向けのグループしか無ければ制限なし
+  assert.equal(allowed('User-agent: other-bot\nDisallow: /', '/news/'), true);
+});
+
+test('Crawl-delay はミリ秒にし、当てはまるグループのものだけを使う', () => {
+  const robots = [
+    'User-agent: other-bot',
+    'Crawl-delay: 30',
+    '',
+    'User-agent: *',
+    'Crawl-delay: 2.5',
+    'Disallow: /private/',
+  ].join('\n');
+  assert.equal(parseRobots(robots, UA).crawlDelayMs, 2500);
+  assert.equal(parseRobots(robots, 'other-bot').crawlDelayMs, 30000);
+  assert.equal(parseRobots('User-agent: *\nDisallow: /private/', UA).crawlDelayMs, 0);
+});
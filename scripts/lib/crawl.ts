@@ -0,0 +1,178 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { BrowserContext, Page } from 'playwright';
+import { RUN_MODE } from './replay';
+
+/**
+ * 外部サイトを巡回するときの作法（press の一覧・記事ページとフィード）
+ *   User-Agent  CRAWLER_USER_AGENT（既定 "fin-news-site/1.0"）。robots.txt の照合には "/" より前の名前を使う
+ *   robots.txt  オリジンごとに1回読み、Disallow のページは開かない（Allow/Disallow は最長一致、* と $ に対応）
+ *               読めない（5xx・通信エラー）ときはそのオリジンを巡回しない。404 等は制限なしとみなす
+ *   間隔        同じホストへは CRAWL_HOST_INTERVAL_MS（既定 1000ms）以上あける。Crawl-delay が長ければそちらに従う
+ *   並列        記事ページはページプールで CRAWL_CONCURRENCY（既定 4）枚まで同時に開く（ホスト間の並列はそのまま効く）
+ * 再生モードは記録済みの応答を返すだけなので、robots.txt の確認と間隔の調整はしない
+ */
+
+export const USER_AGENT = process.env.CRAWLER_USER_AGENT || 'fin-news-site/1.0';
+export const CRAWL_CONCURRENCY = parseInt(process.env.CRAWL_CONCURRENCY || '4', 10);
+export const HOST_INTERVAL_MS = parseInt(process.env.CRAWL_HOST_INTERVAL_MS || '1000', 10);
+
+const ROBOTS_TIMEOUT_MS = 10000;
+
+export type CrawlerOptions = {
+  userAgent?: string;
+  intervalMs?: number;
+};
+
+export type Crawler = {
+  userAgent: string;
+  // robots.txt で許可されていれば、ホストごとの間隔を待ってから true。禁止なら false
+  admit: (url: string) => Promise<boolean>;
+};
+
+type RobotsRule = { allow: boolean; pattern: RegExp; length: number };
+export type RobotsPolicy = { rules: RobotsRule[]; crawlDelayMs: number };
+
+const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelayMs: 0 };
+const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: /^\//, length: 1 }], crawlDelayMs: 0 };
+
+export function createCrawler(opts: CrawlerOptions = {}): Crawler {
+  const userAgent = opts.userAgent || USER_AGENT;
+  const intervalMs = opts.intervalMs ?? HOST_INTERVAL_MS;
+  const robots = new Map<string, Promise<RobotsPolicy>>();
+  const nextAt = new Map<string, number>();
+
+  // 予約は同期的に行うので、並列のワーカーから呼んでも同じ枠を取り合わない
+  const wait = async (host: string, minMs: number) => {
+    const now = Date.now();
+    const at = Math.max(now, nextAt.get(host) ?? 0);
+    nextAt.set(host, at + minMs);
+    if (at > now) await sleep(at - now);
+  };
+
+  const policyFor = (origin: string) => {
+    if (!robots.has(origin)) robots.set(origin, loadRobots(origin, userAgent, wait));
+    return robots.get(origin)!;
+  };
+
+  return {
+    userAgent,
+    async admit(url: string) {
+      if (RUN_MODE === 'replay' || !/^https?:\/\//i.test(url)) return true;
+      const u = new URL(url);
+      const policy = await policyFor(u.origin);
+      if (!isAllowed(policy, u.pathname + u.search)) return false;
+      await wait(u.host, Math.max(intervalMs, policy.crawlDelayMs));
+      return true;
+    },
+  };
+}
+
+async function loadRobots(origin: string, userAgent: string, wait: (host: string, minMs: number) => Promise<void>): Promise<RobotsPolicy> {
+  const url = `${origin}/robots.txt`;
+  try {
+    await wait(new URL(origin).host, 0);
+    const res = await fetch(url, { headers: { 'User-Agent': userAgent }, signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS) });
+    if (res.status >= 500) throw new Error(`${res.status}`);
+    // 404 等（置いていない）は制限なし
+    return res.ok ? parseRobots(await res.text(), userAgent) : ALLOW_ALL;
+  } catch (e: any) {
+    console.warn(`[warn] robots.txt を読めないため巡回しません: ${url}（${e?.message || e}）`);
+    return DISALLOW_ALL;
+  }
+}
+
+/**
+ * robots.txt のうち userAgent に当てはまるグループの規則（名前の一致が無ければ "*"）
+ */
+export function parseRobots(text: string, userAgent: string): RobotsPolicy {
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  type Group = { agents: string[]; lines: [string, string][] };
+  const groups: Group[] = [];
+  let current: Group | null = null;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+    if (key === 'user-agent') {
+      // 規則の後に来た User-agent は新しいグループの始まり
+      if (!current || current.lines.length > 0) {
+        current = { agents: [], lines: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if (current) {
+      current.lines.push([key, value]);
+    }
+  }
+
+  const named = groups.filter(g => g.agents.some(a => a !== '*' && token.startsWith(a)));
+  const chosen = named.length ? named : groups.filter(g => g.agents.includes('*'));
+  if (chosen.length === 0) return ALLOW_ALL;
+
+  const rules: RobotsRule[] = [];
+  let crawlDelayMs = 0;
+  for (const [key, value] of chosen.flatMap(g => g.lines)) {
+    if ((key === 'allow' || key === 'disallow') && value) {
+      rules.push({ allow: key === 'allow', pattern: toPattern(value), length: value.length });
+    } else if (key === 'crawl-delay') {
+      const sec = parseFloat(value);
+      if (!Number.isNaN(sec)) crawlDelayMs = Math.max(crawlDelayMs, sec * 1000);
+    }
+  }
+  return { rules, crawlDelayMs };
+}
+
+/**
+ * 最も長く一致した規則に従う（同じ長さなら Allow を優先）
+ */
+export function isAllowed(policy: RobotsPolicy, pathAndQuery: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const r of policy.rules) {
+    if (!r.pattern.test(pathAndQuery)) continue;
+    if (!best || r.length > best.length || (r.length === best.length && r.allow)) best = r;
+  }
+  return !best || best.allow;
+}
+
+function toPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+export type PagePool = {
+  // items を順に渡し、空いたページで fn を実行する（結果は items の順）。until が true になったら新しく取り出さない
+  map: <T, R>(items: T[], fn: (page: Page, item: T) => Promise<R>, until?: () => boolean) => Promise<(R | undefined)[]>;
+  close: () => Promise<void>;
+};
+
+/**
+ * 使い回すページを size 枚開く（記事ごとに newPage / close しない）
+ */
+export async function openPagePool(ctx: BrowserContext, size: number = CRAWL_CONCURRENCY): Promise<PagePool> {
+  const pages: Page[] = [];
+  for (let i = 0; i < Math.max(1, size); i++) pages.push(await ctx.newPage());
+
+  return {
+    async map<T, R>(items: T[], fn: (page: Page, item: T) => Promise<R>, until?: () => boolean) {
+      const results: (R | undefined)[] = new Array(items.length);
+      let next = 0;
+      await Promise.all(pages.map(async page => {
+        while (next < items.length && !until?.()) {
+          const i = next++;
+          results[i] = await fn(page, items[i]);
+        }
+      }));
+      return results;
+    },
+    async close() {
+      await Promise.all(pages.map(p => p.close().catch(() => {})));
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseJstDate } from './dates';
+
+/**
+ * parseJstDate の表（入力, 基準時刻, 期待する ISO）
+ * 期待値は UTC。JST の 10:00 は 01:00Z になる（実行マシンの TZ に依存しないこと）
+ */
+
+// 2024-06-15 12:00 JST
+const MID_YEAR = new Date('2024-06-15T03:00:00Z');
+// 2026-01-01 12:00 JST（年の補完の境目）
+const NEW_YEAR = new Date('2026-01-01T03:00:00Z');
+// 2024-06-15 00:30 JST（UTC ではまだ 6/14）
+const JST_EARLY = new Date('2024-06-14T15:30:00Z');
+
+type Case = [input: string | null, now: Date, expected: string | null];
+
+const CASES: Record<string, Case[]> = {
+  'タイムゾーン付き（表記どおり）': [
+    ['2024-01-02T10:00:00+09:00', MID_YEAR, '2024-01-02T01:00:00.000Z'],
+    ['2024-01-02T01:00:00Z', MID_YEAR, '2024-01-02T01:00:00.000Z'],
+    ['Tue, 02 Jan 2024 01:00:00 GMT', MID_YEAR, '2024-01-02T01:00:00.000Z'],
+    ['Tue, 02 Jan 2024 10:00:00 +0900', MID_YEAR, '2024-01-02T01:00:00.000Z'],
+    ['2024/01/02 10:00 JST', MID_YEAR, '2024-01-02T01:00:00.000Z'],
+  ],
+  '年月日（JST とみなす）': [
+    ['2024/01/02 10:00', MID_YEAR, '2024-01-02T01:00:00.000Z'],
+    ['2024-01-02 10:00:30', MID_YEAR, '2024-01-02T01:00:30.000Z'],
+    ['2024.01.02', MID_YEAR, '2024-01-01T15:00:00.000Z'],
+    ['2024年1月2日 10時05分', MID_YEAR, '2024-01-02T01:05:00.000Z'],
+    ['2024年1月2日 午後3時', MID_YEAR, '2024-01-02T06:00:00.000Z'],
+    ['2024/01/02 3:30 PM', MID_YEAR, '2024-01-02T06:30:00.000Z'],
+    ['２０２４年１月２日 １０：００', MID_YEAR, '2024-01-02T01:00:00.000Z'],
+    ['令和6年1月2日', MID_YEAR, '2024-01-01T15:00:00.000Z'],
+    ['令和元年5月1日', MID_YEAR, '2019-04-30T15:00:00.000Z'],
+    ['更新日：2024年01月02日 09:00', MID_YEAR, '2024-01-02T00:00:00.000Z'],
+  ],
+  '日/月/年・月/日/年': [
+    ['13/01/2024', MID_YEAR, '2024-01-12T15:00:00.000Z'],
+    ['01/13/2024', MID_YEAR, '2024-01-12T15:00:00.000Z'],
+    ['01/02/2024', MID_YEAR, null],
+  ],
+  '英語の月名': [
+    ['Jan 2, 2024', MID_YEAR, '2024-01-01T15:00:00.000Z'],
+    ['January 2, 2024 10:00 AM', MID_YEAR, '2024-01-02T01:00:00.000Z'],
+    ['Sept. 30, 2024 3:05 PM', MID_YEAR, '2024-09-30T06:05:00.000Z'],
+    ['2 May 2024', MID_YEAR, '2024-05-01T15:00:00.000Z'],
+    ['Jun 14', MID_YEAR, '2024-06-13T15:00:00.000Z'],
+    ['Market 3 update', MID_YEAR, null],
+  ],
+  '相対': [
+    ['たった今', MID_YEAR, '2024-06-15T03:00:00.000Z'],
+    ['15分前', MID_YEAR, '2024-06-15T02:45:00.000Z'],
+    ['3時間前', MID_YEAR, '2024-06-15T00:00:00.000Z'],
+    ['2日前', MID_YEAR, '2024-06-13T03:00:00.000Z'],
+    ['1週間前', MID_YEAR, '2024-06-08T03:00:00.000Z'],
+    ['今日', MID_YEAR, '2024-06-14T15:00:00.000Z'],
+    ['昨日 10:00', MID_YEAR, '2024-06-14T01:00:00.000Z'],
+    ['一昨日', MID_YEAR, '2024-06-12T15:00:00.000Z'],
+    ['昨日', NEW_YEAR, '2025-12-30T15:00:00.000Z'],
+  ],
+  '時刻のみ（未来にならない直近の日）': [
+    ['10:00', MID_YEAR, '2024-06-15T01:00:00.000Z'],
+    ['12:05', MID_YEAR, '2024-06-15T03:05:00.000Z'],
+    ['23:00', MID_YEAR, '2024-06-14T14:00:00.000Z'],
+  ],
+  'JST の日付の境目（UTC では前日）': [
+    ['今日 00:10', JST_EARLY, '2024-06-14T15:10:00.000Z'],
+    ['10:00', JST_EARLY, '2024-06-14T01:00:00.000Z'],
+    ['6/15', JST_EARLY, '2024-06-14T15:00:00.000Z'],
+  ],
+  '年なし（未来にならない直近の年）': [
+    ['6/15 11:00', MID_YEAR, '2024-06-15T02:00:00.000Z'],
+    ['6月16日', MID_YEAR, '2023-06-15T15:00:00.000Z'],
+    ['01/02 10:00', NEW_YEAR, '2025-01-02T01:00:00.000Z'],
+    ['12/31 23:00', NEW_YEAR, '2025-12-31T14:00:00.000Z'],
+    ['1月1日 12:05', NEW_YEAR, '2026-01-01T03:05:00.000Z'],
+    ['1月1日 12:30', NEW_YEAR, '2025-01-01T03:30:00.000Z'],
+  ],
+  '解釈できない': [
+    [null, MID_YEAR, null],
+    ['', MID_YEAR, null],
+    ['日付不明', MID_YEAR, null],
+    ['2024/02/30', MID_YEAR, null],
+    ['25:00', MID_YEAR, null],
+  ],
+};
+
+for (const [group, cases] of Object.entries(CASES)) {
+  test(group, () => {
+    for (const [input, now, expected] of cases) {
+      assert.equal(parseJstDate(input, now), expected, `${JSON.stringify(input)}（基準 ${now.toISOString()}）`);
+    }
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * サイト表記の日時を ISO8601（UTC）へ変換する共通パーサ
+ * タイムゾーンの書かれていない日時はすべて日本時間（Asia/Tokyo）とみなす（実行マシンの TZ に依存しない）
+ *
+ *   2024-01-02T10:00:00+09:00 / Tue, 02 Jan 2024 01:00:00 GMT   表記どおりのタイムゾーン
+ *   2024/01/02 10:00、2024年1月2日 10時00分、２０２４年１月２日    JST
+ *   令和6年1月2日                                               JST（令和のみ対応）
+ *   Jan 2, 2024 10:00 AM、2 January 2024                        JST（英語の月名。年なしも可）
+ *   1月2日 10:00、01/02 10:00                                   年なし → 未来にならない直近の年
+ *   10:00                                                       時刻のみ → 未来にならない直近の日
+ *   3時間前、15分前、2日前、たった今                             now からの相対
+ *   昨日 10:00、今日、一昨日                                     JST の暦日で相対
+ *
+ * 日/月/年 と 月/日/年 を区別できない "01/02/2024" 形式は、どちらかが 12 を超える場合のみ解釈する
+ */
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// サイトと実行マシンの時計のずれとして許す未来方向の幅（年・日の補完に使う）
+const FUTURE_TOLERANCE_MS = 10 * MINUTE_MS;
+
+// タイムゾーン表記（Z / +09:00 / +0900 / GMT / UTC / JST）
+const TZ_RE = /(?:\d(?:Z)|[+-]\d{2}:?\d{2}|\b(?:GMT|UTC|JST)\b)\s*$/i;
+
+const RELATIVE_UNITS: Record<string, number> = {
+  '秒': 1000,
+  '分': MINUTE_MS,
+  '時間': 60 * MINUTE_MS,
+  '日': DAY_MS,
+  '週間': 7 * DAY_MS,
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// 英語の月名（"Market" 等の単語に当たらないよう、月名か略称そのものに限る）
+const MONTH_RE = '(January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept|Sep|Oct|Nov|Dec)\\.?';
+
+const RELATIVE_DAYS: Record<string, number> = {
+  '今日': 0,
+  '本日': 0,
+  '昨日': -1,
+  '一昨日': -2,
+  'おととい': -2,
+};
+
+export function parseJstDate(raw?: string | null, now: Date = new Date()): string | null {
+  const s = (raw || '').normalize('NFKC').replace(/\s+/g, ' ').trim();
+  if (!s) return null;
+
+  // タイムゾーンが明示されていれば Date に任せる（ISO8601 / RFC 822）
+  if (TZ_RE.test(s)) {
+    const d = new Date(s.replace(/\bJST\s*$/i, '+0900'));
+    if (!Number.isNaN(+d)) return d.toISOString();
+  }
+
+  return parseRelative(s, now) ?? parseAbsolute(s, now);
+}
+
+function parseRelative(s: string, now: Date): string | null {
+  if (/^(?:たった今|今|いま|just now)$/i.test(s)) return now.toISOString();
+
+  const m = s.match(/(\d+)\s*(秒|分|時間|日|週間)前/);
+  if (m) return new Date(now.getTime() - parseInt(m[1], 10) * RELATIVE_UNITS[m[2]]).toISOString();
+
+  const d = s.match(/(今日|本日|一昨日|おととい|昨日)/);
+  if (d) {
+    const today = jstParts(now.getTime());
+    const time = parseTime(s.slice(d.index! + d[0].length)) ?? { hh: 0, mm: 0, ss: 0 };
+    return fromJst(today.y, today.mo, today.d + RELATIVE_DAYS[d[1]], time.hh, time.mm, time.ss);
+  }
+  return null;
+}
+
+function parseAbsolute(s: string, now: Date): string | null {
+  let y: number | null = null;
+  let mo: number;
+  let d: number;
+
+  let m: RegExpMatchArray | null;
+  if ((m = s.match(/令和\s*(\d+|元)\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/))) {
+    y = 2018 + (m[1] === '元' ? 1 : parseInt(m[1], 10));
+    mo = parseInt(m[2], 10);
+    d = parseInt(m[3], 10);
+  } else if ((m = s.match(/(\d{4})\s*[年\/.\-]\s*(\d{1,2})\s*[月\/.\-]\s*(\d{1,2})\s*日?/))) {
+    y = parseInt(m[1], 10);
+    mo = parseInt(m[2], 10);
+    d = parseInt(m[3], 10);
+  } else if ((m = s.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/))) {
+    // 01/02/2024 形式は順序を決められるときだけ採用する
+    const a = parseInt(m[1], 10);
+    const b = parseInt(m[2], 10);
+    if (a > 12 && b <= 12) { d = a; mo = b; }
+    else if (b > 12 && a <= 12) { mo = a; d = b; }
+    else return null;
+    y = parseInt(m[3], 10);
+  } else if ((m = s.match(new RegExp(`\\b${MONTH_RE}\\s+(\\d{1,2})(?!\\d)(?:st|nd|rd|th)?,?(?:\\s+(\\d{4}))?`, 'i')))) {
+    // Jan 2, 2024（英語の月名）
+    mo = MONTH_NAMES.indexOf(m[1].slice(0, 3).toLowerCase()) + 1;
+    d = parseInt(m[2], 10);
+    if (m[3]) y = parseInt(m[3], 10);
+  } else if ((m = s.match(new RegExp(`\\b(\\d{1,2})\\s+${MONTH_RE},?(?:\\s+(\\d{4}))?`, 'i')))) {
+    // 2 Jan 2024
+    mo = MONTH_NAMES.indexOf(m[2].slice(0, 3).toLowerCase()) + 1;
+    d = parseInt(m[1], 10);
+    if (m[3]) y = parseInt(m[3], 10);
+  } else if ((m = s.match(/(\d{1,2})\s*[月\/]\s*(\d{1,2})\s*日?/))) {
+    // 年なし（国内サイトは 月/日 の順）
+    mo = parseInt(m[1], 10);
+    d = parseInt(m[2], 10);
+  } else {
+    // 時刻のみ
+    const time = parseTime(s);
+    if (!time) return null;
+    const today = jstParts(now.getTime());
+    const iso = fromJst(today.y, today.mo, today.d, time.hh, time.mm, time.ss);
+    if (!iso) return null;
+    return new Date(iso).getTime() > now.getTime() + FUTURE_TOLERANCE_MS
+      ? new Date(new Date(iso).getTime() - DAY_MS).toISOString()
+      : iso;
+  }
+  const time = parseTime(s.slice(m.index! + m[0].length)) ?? { hh: 0, mm: 0, ss: 0 };
+  if (y !== null) return fromJst(y, mo, d, time.hh, time.mm, time.ss);
+
+  // 年の補完: 今年で未来になるなら前年の記事とみなす（年末年始の跨ぎ）
+  const thisYear = jstParts(now.getTime()).y;
+  const iso = fromJst(thisYear, mo, d, time.hh, time.mm, time.ss);
+  if (iso && new Date(iso).getTime() <= now.getTime() + FUTURE_TOLERANCE_MS) return iso;
+  return fromJst(thisYear - 1, mo, d, time.hh, time.mm, time.ss);
+}
+
+function parseTime(s: string): { hh: number; mm: number; ss: number } | null {
+  const m = s.match(/(午前|午後|AM|PM)?\s*(\d{1,2})\s*(?::|時)\s*(\d{1,2})?\s*分?(?::(\d{2}))?\s*(AM|PM)?/i);
+  if (!m) return null;
+  let hh = parseInt(m[2], 10);
+  const mm = m[3] ? parseInt(m[3], 10) : 0;
+  const ss = m[4] ? parseInt(m[4], 10) : 0;
+  const ampm = (m[1] || m[5] || '').toUpperCase();
+  if ((ampm === '午後' || ampm === 'PM') && hh < 12) hh += 12;
+  if ((ampm === '午前' || ampm === 'AM') && hh === 12) hh = 0;
+  if (hh > 23 || mm > 59 || ss > 59) return null;
+  return { hh, mm, ss };
+}
+
+/**
+ * JST の年月日時分秒から ISO 文字列を作る。存在しない日付（2/30 等）は null
+ * d は範囲外でもよい（昨日・一昨日の計算で月をまたぐため）
+ */
+function fromJst(y: number, mo: number, d: number, hh: number, mm: number, ss: number): string | null {
+  if (mo < 1 || mo > 12) return null;
+  const t = Date.UTC(y, mo - 1, d, hh, mm, ss) - JST_OFFSET_MS;
+  if (Number.isNaN(t)) return null;
+  if (d >= 1) {
+    const p = jstParts(t);
+    if (p.mo !== mo || p.d !== d) return null;
+  }
+  return new Date(t).toISOString();
+}
+
+function jstParts(t: number): { y: number; mo: number; d: number } {
+  const j = new Date(t + JST_OFFSET_MS);
+  return { y: j.getUTCFullYear(), mo: j.getUTCMonth() + 1, d: j.getUTCDate() };
+}
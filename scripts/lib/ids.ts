@@ -0,0 +1,55 @@
+import crypto from 'node:crypto';
+
+/**
+ * URL 由来の安定 ID
+ * 同じ記事は取り込み順やフェッチャーに関係なく常に同じ ID になる
+ */
+
+// 計測・流入元のパラメータ（記事の同一性に関係しない）
+const TRACKING_PARAM_RE = /^(utm_[a-z_]+|fbclid|gclid|yclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src|ref_url|ncid|cmpid|n_cid|taid|rss|from)$/i;
+
+const X_HOSTS = /^(?:www\.|mobile\.)?(?:x|twitter)\.com$/i;
+
+/**
+ * 比較・ID 用に URL を正規化する
+ *  - スキームを https に、ホストを小文字に、既定ポート・フラグメントを除去
+ *  - 計測用クエリを除去し、残りはキー順に並べ替え
+ *  - x.com / twitter.com / mobile.twitter.com は x.com に統一し、投稿は /<handle>/status/<id> に揃える
+ */
+export function canonicalizeUrl(raw: string): string {
+  let u: URL;
+  try {
+    u = new URL(raw.trim());
+  } catch {
+    return raw.trim();
+  }
+  if (u.protocol !== 'http:' && u.protocol !== 'https:') return raw.trim();
+
+  u.protocol = 'https:';
+  u.hash = '';
+  u.port = '';
+  u.hostname = u.hostname.toLowerCase();
+
+  if (X_HOSTS.test(u.hostname)) {
+    u.hostname = 'x.com';
+    u.search = '';
+    // /photo/1 や /analytics などの付属パスは投稿本体に寄せる。ハンドルは大文字小文字を区別しない
+    const m = u.pathname.match(/^\/([^/]+)\/status(?:es)?\/(\d+)/i);
+    u.pathname = m ? `/${m[1].toLowerCase()}/status/${m[2]}` : u.pathname.toLowerCase();
+  } else {
+    const params = [...u.searchParams.entries()]
+      .filter(([k]) => !TRACKING_PARAM_RE.test(k))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    u.search = params.length ? '?' + new URLSearchParams(params).toString() : '';
+  }
+
+  if (u.pathname.length > 1) u.pathname = u.pathname.replace(/\/+$/, '');
+  return u.toString();
+}
+
+/**
+ * 正規化 URL の SHA-1 先頭 16 桁を ID とする
+ */
+export function itemIdFromUrl(url: string): string {
+  return crypto.createHash('sha1').update(canonicalizeUrl(url)).digest('hex').slice(0, 16);
+}
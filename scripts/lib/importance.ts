@@ -0,0 +1,79 @@
+import { ImportanceFactors, NewsItem } from './schema';
+
+/**
+ * 取り込み時の重要度スコア（1..5）
+ * 次の要素の加点の合計 + 1 を四捨五入する。内訳は factors に残し、フロントで「なぜ★5か」を表示する
+ *   source      媒体の信頼度（適時開示 > 主要通信社・新聞 > その他の媒体 > SNS）
+ *   disclosure  開示・記事の種別（業績予想の修正 > 決算 > 開示・マクロ・為替 > 指数）
+ *   watchlist   ウォッチリストに該当するか
+ *   cluster     同じ出来事を報じた媒体の数（lib/cluster.ts の clusterId）
+ *   freshness   公開からの経過時間（取り込みのたびに付け直すため、その時点での値）
+ *   severity    緊急・急落・上方修正などの語（分類ルールの severity）
+ */
+
+const MAX_SCORE = 5;
+
+// 媒体の信頼度（上から順に最初に当たったもの）
+const SOURCE_RELIABILITY: [RegExp, number][] = [
+  [/^TDnet\b/, 1.0],
+  [/^X: @(JPX_official|TSE_pr)$/i, 0.6],
+  [/^X: /, 0.2],
+  [/日経|nikkei|ロイター|reuters|ブルームバーグ|bloomberg|NHK|読売|WSJ|QUICK/i, 0.6],
+];
+const DEFAULT_RELIABILITY = 0.4;
+
+const TYPE_POINTS: Record<string, number> = {
+  earnings: 1.0,
+  disclosure: 0.8,
+  macro: 0.8,
+  fx: 0.8,
+  equityIndex: 0.5,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * items の importance / factors を付け直した新しい配列を返す（クラスタの大きさを見るため全件を渡すこと）
+ */
+export function assignImportance(items: NewsItem[], now: Date = new Date()): NewsItem[] {
+  const clusterSize = new Map<string, number>();
+  for (const x of items) {
+    if (x.clusterId) clusterSize.set(x.clusterId, (clusterSize.get(x.clusterId) || 0) + 1);
+  }
+  return items.map(x => {
+    const factors = scoreFactors(x, x.clusterId ? clusterSize.get(x.clusterId) || 1 : 1, now);
+    const total = 1 + Object.values(factors).reduce((a, b) => a + b, 0);
+    return { ...x, importance: Math.max(1, Math.min(MAX_SCORE, Math.round(total))), factors };
+  });
+}
+
+export function scoreFactors(x: NewsItem, clusterSize: number, now: Date = new Date()): ImportanceFactors {
+  return {
+    source: round(SOURCE_RELIABILITY.find(([re]) => re.test(x.source))?.[1] ?? DEFAULT_RELIABILITY),
+    disclosure: round(typePoints(x)),
+    watchlist: x.watchlists?.length ? 1 : 0,
+    cluster: round(Math.min(1.5, (clusterSize - 1) * 0.5)),
+    freshness: freshness(x.publishedAt, now),
+    severity: round((x.classification?.severity ?? 0) * 0.5),
+  };
+}
+
+function typePoints(x: NewsItem): number {
+  if (x.financials?.kind === 'forecastRevision') return 1.5;
+  if (x.financials?.kind === 'earnings') return 1.2;
+  return TYPE_POINTS[x.type || ''] ?? 0;
+}
+
+function freshness(publishedAt: string | null, now: Date): number {
+  if (!publishedAt) return 0;
+  const age = now.getTime() - new Date(publishedAt).getTime();
+  if (Number.isNaN(age) || age < -HOUR_MS) return 0; // 未来の日時は時計のずれ以上なら信用しない
+  if (age <= 3 * HOUR_MS) return 1;
+  if (age <= 12 * HOUR_MS) return 0.5;
+  if (age <= 24 * HOUR_MS) return 0.25;
+  return 0;
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
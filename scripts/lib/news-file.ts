@@ -0,0 +1,56 @@
+import fs from 'node:fs';
+import { NewsItem, SCHEMA_VERSION, migrateItems, unwrapNewsFile, validateItems } from './schema';
+
+export const NEWS_JSON = 'assets/data/news.json';
+
+/**
+ * news.json を読み込み、現行スキーマへ移行した項目配列を返す
+ * （旧形式の配列ファイルも読める。書き戻し時に新形式になる）
+ * 書き込みはロック・バックアップ付きの store.ts の updateNewsFile を使うこと
+ */
+export function readNewsFile(p: string = NEWS_JSON): NewsItem[] {
+  const raw = JSON.parse(fs.readFileSync(p, 'utf-8'));
+  const { schemaVersion, items } = unwrapNewsFile(raw);
+  return migrateItems(items, schemaVersion).items;
+}
+
+/**
+ * 1件でも不正があれば例外を投げる（書き込み前の検証）
+ */
+export function assertValidItems(items: NewsItem[]) {
+  const issues = validateItems(items);
+  if (issues.length > 0) {
+    const lines = issues.slice(0, 20).map(i => `  #${i.index} ${i.id || '(id なし)'}: ${i.errors.join(' / ')}`);
+    const more = issues.length > 20 ? `\n  ...ほか ${issues.length - 20} 件` : '';
+    throw new Error(`news.json の検証に失敗しました（${issues.length} 件）。書き込みを中止します。\n${lines.join('\n')}${more}`);
+  }
+}
+
+export type NewsDiff = {
+  added: NewsItem[];
+  removed: NewsItem[];
+  changed: NewsItem[];
+};
+
+/**
+ * id をキーに追加・削除・変更を求める
+ */
+export function diffNewsItems(before: NewsItem[], after: NewsItem[]): NewsDiff {
+  const prev = new Map(before.map(x => [x.id, x]));
+  const next = new Map(after.map(x => [x.id, x]));
+  const added = after.filter(x => !prev.has(x.id));
+  const removed = before.filter(x => !next.has(x.id));
+  const changed = after.filter(x => prev.has(x.id) && JSON.stringify(prev.get(x.id)) !== JSON.stringify(x));
+  return { added, removed, changed };
+}
+
+export function printNewsDiff(diff: NewsDiff) {
+  for (const x of diff.added) console.log(`+ ${x.id}  [${x.category}] ${x.title}  ${x.url}`);
+  for (const x of diff.removed) console.log(`- ${x.id}  [${x.category}] ${x.title}  ${x.url}`);
+  for (const x of diff.changed) console.log(`~ ${x.id}  [${x.category}] ${x.title}`);
+  console.log(`差分: 追加 ${diff.added.length} 件 / 削除 ${diff.removed.length} 件 / 変更 ${diff.changed.length} 件`);
+}
+
+export function serializeNewsFile(items: NewsItem[]): string {
+  return JSON.stringify({ schemaVersion: SCHEMA_VERSION, items }, null, 2);
+}
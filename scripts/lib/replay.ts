@@ -0,0 +1,148 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import { Browser, BrowserContext } from 'playwright';
+
+/**
+ * フェッチャー共通の記録/再生モード
+ *   live   : 通常どおり実サイトへアクセス（既定）
+ *   record : 訪問したページを HAR に保存し、抽出結果をゴールデンとして保存
+ *   replay : HAR から応答を返し（ネットワーク不要）、抽出結果をゴールデンと比較
+ * 指定は PW_MODE=record|replay か、コマンド引数 --record / --replay
+ *
+ * 保存先: scripts/snapshots/<fetcher>/{recording.har, golden.json, values.json, text/}
+ * press / tdnet の記録はコミットし、CI の replay:check で抽出の変化を確認する
+ * X の記録にはログイン Cookie が含まれるため、共有リポジトリへはコミットしないこと（.gitignore 済み）
+ */
+
+export type RunMode = 'live' | 'record' | 'replay';
+
+export const RUN_MODE: RunMode = parseMode(process.env.PW_MODE, process.argv.slice(2));
+export const SNAPSHOT_DIR = process.env.PW_SNAPSHOT_DIR || 'scripts/snapshots';
+
+function parseMode(env: string | undefined, args: string[]): RunMode {
+  if (args.includes('--record')) return 'record';
+  if (args.includes('--replay')) return 'replay';
+  const m = (env || 'live').toLowerCase();
+  if (m === 'live' || m === 'record' || m === 'replay') return m;
+  throw new Error(`PW_MODE が不正です: ${env}（live / record / replay）`);
+}
+
+function snapshotDir(name: string): string {
+  return path.join(SNAPSHOT_DIR, name);
+}
+
+/**
+ * モードに応じたブラウザコンテキストを作る
+ * record 時は close() で HAR が書き出されるため、browser.close() より前に必ず閉じること
+ */
+export async function openContext(browser: Browser, name: string, options: Parameters<Browser['newContext']>[0] = {}): Promise<BrowserContext> {
+  const harPath = path.join(snapshotDir(name), 'recording.har');
+
+  if (RUN_MODE === 'record') {
+    fs.mkdirSync(snapshotDir(name), { recursive: true });
+    return browser.newContext({ ...options, recordHar: { path: harPath, content: 'embed' } });
+  }
+
+  const ctx = await browser.newContext(options);
+  if (RUN_MODE === 'replay') {
+    if (!fs.existsSync(harPath)) throw new Error(`記録がありません。先に --record で実行してください: ${harPath}`);
+    // 記録に無いリクエストは失敗させ、実サイトへは出ない
+    await ctx.routeFromHAR(harPath, { notFound: 'abort' });
+  }
+  return ctx;
+}
+
+/**
+ * 再生モードで、そのフェッチャーの記録（ゴールデン）がまだ無ければ true（警告を出して再生を飛ばす）
+ * CI では記録の欠けで replay:check が素通りしないよう失敗させる（コミットしない X の記録は optional で飛ばす）
+ * 記録が途中まで（HAR・値の欠け）のときは、どの環境でも失敗のまま
+ */
+export function snapshotMissing(name: string, opts: { optional?: boolean } = {}): boolean {
+  if (RUN_MODE !== 'replay') return false;
+  const goldenPath = path.join(snapshotDir(name), 'golden.json');
+  if (fs.existsSync(goldenPath)) return false;
+  if (process.env.CI && !opts.optional) {
+    throw new Error(`${name}: 記録がありません。npm run ${name}:record で作成してコミットしてください: ${goldenPath}`);
+  }
+  console.warn(`${name}: 記録がないため再生を飛ばします（npm run ${name}:record で作成）: ${goldenPath}`);
+  return true;
+}
+
+/**
+ * ブラウザを使わない取得（フィード等）の記録/再生
+ * record 時は本文を保存し、replay 時は保存済みの本文を返す
+ */
+export async function snapshotText(name: string, url: string, load: () => Promise<string>): Promise<string> {
+  const file = path.join(snapshotDir(name), 'text', crypto.createHash('sha1').update(url).digest('hex') + '.txt');
+
+  if (RUN_MODE === 'replay') {
+    if (!fs.existsSync(file)) throw new Error(`記録がありません: ${url}（${file}）`);
+    return fs.readFileSync(file, 'utf-8');
+  }
+
+  const body = await load();
+  if (RUN_MODE === 'record') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, body, 'utf-8');
+  }
+  return body;
+}
+
+/**
+ * 実行時に決まる値（取得対象の日付、相対日時を解釈する基準時刻など）の記録/再生
+ * record 時は compute の結果を保存し、replay 時は保存済みの値を返す（live は compute の結果そのまま）
+ */
+export function snapshotValue<T>(name: string, key: string, compute: () => T): T {
+  const file = path.join(snapshotDir(name), 'values.json');
+  const saved = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : {};
+
+  if (RUN_MODE === 'replay') {
+    if (!(key in saved)) throw new Error(`記録がありません: ${key}（${file}）`);
+    return saved[key] as T;
+  }
+
+  const value = compute();
+  if (RUN_MODE === 'record') {
+    fs.mkdirSync(snapshotDir(name), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ ...saved, [key]: value }, null, 2), 'utf-8');
+  }
+  return value;
+}
+
+/**
+ * 抽出結果（24h フィルタ等の前段）をゴールデンと突き合わせる
+ * record: ゴールデンを保存 / replay: 差分を表示し、不一致なら exit code 1
+ * 戻り値が true のときのみ news.json への反映を続けてよい（live のみ）
+ */
+export function settleSnapshot(name: string, items: unknown[]): boolean {
+  if (RUN_MODE === 'live') return true;
+
+  const goldenPath = path.join(snapshotDir(name), 'golden.json');
+  const actual = JSON.stringify(items, null, 2);
+
+  if (RUN_MODE === 'record') {
+    fs.mkdirSync(snapshotDir(name), { recursive: true });
+    fs.writeFileSync(goldenPath, actual, 'utf-8');
+    console.log(`${name}: 記録しました（${items.length} 件）: ${goldenPath}`);
+    return false;
+  }
+
+  if (!fs.existsSync(goldenPath)) throw new Error(`ゴールデンがありません: ${goldenPath}`);
+  const expected = JSON.parse(fs.readFileSync(goldenPath, 'utf-8')) as unknown[];
+  const expectedKeys = new Map(expected.map(x => [JSON.stringify(x), x]));
+  const actualKeys = new Map(items.map(x => [JSON.stringify(x), x]));
+
+  const missing = [...expectedKeys.keys()].filter(k => !actualKeys.has(k));
+  const extra = [...actualKeys.keys()].filter(k => !expectedKeys.has(k));
+  if (missing.length === 0 && extra.length === 0) {
+    console.log(`${name}: 再生結果はゴールデンと一致しました（${items.length} 件）。`);
+    return false;
+  }
+
+  for (const k of missing) console.warn(`  - ${k}`);
+  for (const k of extra) console.warn(`  + ${k}`);
+  console.warn(`${name}: ゴールデンと不一致です（欠落 ${missing.length} 件 / 追加 ${extra.length} 件）。`);
+  process.exitCode = 1;
+  return false;
+}
@@ -0,0 +1,310 @@
+import { itemIdFromUrl } from './ids';
+
+/**
+ * news.json の共通スキーマ
+ * 各フェッチャー（press / tdnet / x）と移行ツールはこの定義のみを参照する
+ */
+
+// データファイルのスキーマバージョン（配列のみの旧形式は 1 とみなす）
+//   2: { schemaVersion, items } 形式
+//   3: id を URL 由来のハッシュ（lib/ids.ts）に変更
+export const SCHEMA_VERSION = 3;
+
+export const CATEGORIES = ['market', 'company', 'sns'] as const;
+export type Category = typeof CATEGORIES[number];
+
+export type NewsItem = {
+  id: string;
+  category: Category;
+  title: string;
+  summary: string;
+  source: string;
+  url: string;
+  publishedAt: string | null; // ISO8601
+  tags: string[];
+  locale: 'ja';
+  verified: boolean;
+  thumbnail: string;
+  type?: string;        // 例: 'macro' | 'disclosure' | 'companyNews' など
+  tickers?: string[];   // 例: ["7203.T"]
+  clusterId?: string;   // 同じ出来事を報じた項目に共通の id（lib/cluster.ts。単独の項目には無い）
+  disclosure?: Disclosure; // 適時開示（TDnet）由来の項目のみ
+  financials?: Financials; // 決算短信・業績予想の修正の XBRL から取り出した数値（tdnet/xbrl.ts）
+  tickerMatches?: TickerMatch[]; // 企業名からの照合結果（entities/linker.ts。tickers に入れなかった低確度のものも含む）
+  watchlists?: string[];   // 取り込み時に一致したウォッチリストの id（lib/watchlist.ts）
+  author?: string;      // 記事の著者・記者名（press の記事ページから。news/article.ts）
+  section?: string;     // 媒体上のセクション（例: "マーケット"）
+  summarizedBy?: string; // summary を自動生成したプロバイダ（例: "openai:gpt-4o-mini"。enrich/summarize.ts）
+  classification?: ItemClassification; // ルールベース分類の結果（classify/classifier.ts）
+  importance?: number;  // 1..5（lib/importance.ts）
+  factors?: ImportanceFactors; // importance の内訳（各要素の加点）
+  post?: SocialPost;    // X の投稿の構造（x/post.ts。source は元の投稿者）
+};
+
+export type SocialPost = {
+  author: string;         // 投稿者のハンドル（例: "@nikkei"）
+  authorName?: string;    // 表示名
+  repostedBy?: string;    // 取得したアカウントがリポストした投稿なら、そのハンドル
+  quoted?: { url: string | null; author: string; text: string };  // 引用した投稿
+  pinned?: boolean;       // プロフィールに固定されていた
+  media: string[];        // 画像・動画（サムネイル）の URL
+  metrics: { replies?: number; reposts?: number; likes?: number; views?: number };  // 取得時点の反応数
+};
+
+export type ImportanceFactors = {
+  source: number;
+  disclosure: number;
+  watchlist: number;
+  cluster: number;
+  freshness: number;
+  severity: number;
+};
+
+export type ItemClassification = {
+  sentiment: 'positive' | 'negative' | 'neutral';
+  severity?: number;    // 速報性・相場への影響の大きさ（0..2 目安）
+  confidence: number;   // 0..1
+  rules: string[];      // 当たったルールの id
+};
+
+export type TickerMatch = {
+  ticker: string;
+  matched: string;      // 本文中で当たった表記（正規化済み）
+  via: 'code' | 'name' | 'shortName' | 'english' | 'alias';
+  confidence: number;   // 0..1
+};
+
+export type Disclosure = {
+  code: string;           // TDnet の5桁コード
+  company: string;
+  exchange: string;       // 上場取引所（例: "東", "東名"）
+  pdfUrl: string;
+  xbrlUrl: string | null;
+};
+
+// 金額は円、eps は円/株、yoy は前年同期比の比率（0.123 = +12.3%）
+export type FinancialFigures = {
+  netSales?: number;
+  operatingIncome?: number;
+  ordinaryIncome?: number;
+  netIncome?: number;       // 親会社株主に帰属する当期純利益
+  eps?: number;
+  yoy?: {
+    netSales?: number;
+    operatingIncome?: number;
+    ordinaryIncome?: number;
+    netIncome?: number;
+  };
+};
+
+export type Financials = {
+  kind: 'earnings' | 'forecastRevision';
+  basis: 'consolidated' | 'nonConsolidated';
+  actual?: FinancialFigures;            // 決算短信の当期（累計）実績
+  forecast?: FinancialFigures;          // 通期予想（修正の場合は修正後）
+  previousForecast?: FinancialFigures;  // 修正前の通期予想（業績予想の修正のみ）
+};
+
+export type NewsFile = {
+  schemaVersion: number;
+  items: NewsItem[];
+};
+
+export type ValidationIssue = {
+  index: number;
+  id: string;
+  errors: string[];
+};
+
+// 2024年以降の英字入りコード（例: 130A）も許容する
+const TICKER_RE = /^\d[0-9A-Z]\d[0-9A-Z][0-9A-Z]?\.T$/;
+
+/**
+ * 1件分の検証。問題があればエラーメッセージを配列で返す（空配列なら妥当）
+ */
+export function validateItem(x: any): string[] {
+  const errors: string[] = [];
+  if (!x || typeof x !== 'object') return ['オブジェクトではありません'];
+
+  if (typeof x.id !== 'string' || !x.id) errors.push('id が空です');
+  if (!CATEGORIES.includes(x.category)) errors.push(`category が不正です: ${x.category}`);
+  if (typeof x.title !== 'string' || !x.title.trim()) errors.push('title が空です');
+  if (typeof x.summary !== 'string') errors.push('summary が文字列ではありません');
+  if (typeof x.source !== 'string') errors.push('source が文字列ではありません');
+  if (typeof x.url !== 'string' || !/^https?:\/\//i.test(x.url)) errors.push(`url が不正です: ${x.url}`);
+  else if (typeof x.id === 'string' && x.id && x.id !== itemIdFromUrl(x.url)) errors.push(`id が URL から求めた値と一致しません: ${x.id}`);
+  if (x.publishedAt !== null) {
+    if (typeof x.publishedAt !== 'string' || Number.isNaN(+new Date(x.publishedAt))) {
+      errors.push(`publishedAt が不正です: ${x.publishedAt}`);
+    }
+  }
+  if (!Array.isArray(x.tags) || x.tags.some((t: any) => typeof t !== 'string')) errors.push('tags が文字列配列ではありません');
+  if (x.locale !== 'ja') errors.push(`locale が不正です: ${x.locale}`);
+  if (typeof x.verified !== 'boolean') errors.push('verified が真偽値ではありません');
+  if (typeof x.thumbnail !== 'string') errors.push('thumbnail が文字列ではありません');
+  if (x.type !== undefined && typeof x.type !== 'string') errors.push('type が文字列ではありません');
+  if (x.tickers !== undefined) {
+    if (!Array.isArray(x.tickers) || x.tickers.some((t: any) => typeof t !== 'string' || !TICKER_RE.test(t))) {
+      errors.push(`tickers が不正です: ${JSON.stringify(x.tickers)}`);
+    }
+  }
+  if (x.clusterId !== undefined && (typeof x.clusterId !== 'string' || !x.clusterId)) errors.push('clusterId が不正です');
+  if (x.disclosure !== undefined) {
+    const d = x.disclosure;
+    if (!d || typeof d !== 'object' || typeof d.code !== 'string' || typeof d.company !== 'string'
+      || typeof d.exchange !== 'string' || typeof d.pdfUrl !== 'string' || (d.xbrlUrl !== null && typeof d.xbrlUrl !== 'string')) {
+      errors.push('disclosure が不正です');
+    }
+  }
+  if (x.watchlists !== undefined && (!Array.isArray(x.watchlists) || x.watchlists.some((w: any) => typeof w !== 'string'))) {
+    errors.push('watchlists が文字列配列ではありません');
+  }
+  if (x.author !== undefined && typeof x.author !== 'string') errors.push('author が文字列ではありません');
+  if (x.section !== undefined && typeof x.section !== 'string') errors.push('section が文字列ではありません');
+  if (x.summarizedBy !== undefined && (typeof x.summarizedBy !== 'string' || !x.summarizedBy)) errors.push('summarizedBy が不正です');
+  if (x.classification !== undefined) {
+    const c = x.classification;
+    if (!c || typeof c !== 'object' || !['positive', 'negative', 'neutral'].includes(c.sentiment)
+      || typeof c.confidence !== 'number' || !Array.isArray(c.rules)) {
+      errors.push('classification が不正です');
+    }
+  }
+  if (x.importance !== undefined && (!Number.isInteger(x.importance) || x.importance < 1 || x.importance > 5)) {
+    errors.push(`importance が不正です: ${x.importance}`);
+  }
+  if (x.factors !== undefined && (!x.factors || typeof x.factors !== 'object'
+    || Object.values(x.factors).some((v: any) => typeof v !== 'number'))) {
+    errors.push('factors が不正です');
+  }
+  if (x.tickerMatches !== undefined) {
+    if (!Array.isArray(x.tickerMatches) || x.tickerMatches.some((m: any) => !m || !TICKER_RE.test(m.ticker) || typeof m.confidence !== 'number')) {
+      errors.push('tickerMatches が不正です');
+    }
+  }
+  if (x.financials !== undefined) {
+    const f = x.financials;
+    if (!f || typeof f !== 'object' || !['earnings', 'forecastRevision'].includes(f.kind)) errors.push('financials が不正です');
+  }
+  if (x.post !== undefined) {
+    const p = x.post;
+    if (!p || typeof p !== 'object' || typeof p.author !== 'string' || !/^@\w+$/.test(p.author)
+      || !Array.isArray(p.media) || !p.metrics || typeof p.metrics !== 'object') {
+      errors.push('post が不正です');
+    }
+  }
+  return errors;
+}
+
+/**
+ * 全件検証し、問題のある項目のみ返す。id の重複もここで検出する
+ */
+export function validateItems(items: any[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seenIds = new Set<string>();
+  items.forEach((x, index) => {
+    const errors = validateItem(x);
+    const id = typeof x?.id === 'string' ? x.id : '';
+    if (id) {
+      if (seenIds.has(id)) errors.push(`id が重複しています: ${id}`);
+      seenIds.add(id);
+    }
+    if (errors.length) issues.push({ index, id, errors });
+  });
+  return issues;
+}
+
+/**
+ * 旧形式の項目を現行スキーマへ寄せる（補完できる欠損のみ補う）
+ * 補完できない項目（URLやタイトルが無い等）は validateItem で弾かれる
+ */
+export function migrateItem(x: any): any {
+  if (!x || typeof x !== 'object') return x;
+
+  const category = CATEGORIES.includes(x.category) ? x.category : 'market';
+  const out: any = {
+    id: typeof x.id === 'string' ? x.id : '',
+    category,
+    title: typeof x.title === 'string' ? x.title.replace(/\s+/g, ' ').trim() : x.title,
+    summary: typeof x.summary === 'string' ? x.summary : '',
+    source: typeof x.source === 'string' ? x.source : '',
+    url: typeof x.url === 'string' ? x.url.trim() : x.url,
+    publishedAt: normalizeDate(x.publishedAt),
+    tags: Array.isArray(x.tags) ? x.tags.filter((t: any) => typeof t === 'string') : [],
+    locale: 'ja',
+    verified: x.verified !== false,
+    thumbnail: typeof x.thumbnail === 'string' ? x.thumbnail : '',
+  };
+  if (typeof x.type === 'string' && x.type) out.type = x.type;
+  if (Array.isArray(x.tickers)) out.tickers = x.tickers.map(normalizeTicker).filter(Boolean);
+  if (typeof x.clusterId === 'string' && x.clusterId) out.clusterId = x.clusterId;
+  if (x.disclosure && typeof x.disclosure === 'object') out.disclosure = x.disclosure;
+  if (x.financials && typeof x.financials === 'object') out.financials = x.financials;
+  if (Array.isArray(x.tickerMatches)) out.tickerMatches = x.tickerMatches;
+  if (Array.isArray(x.watchlists)) out.watchlists = x.watchlists.filter((w: any) => typeof w === 'string');
+  if (typeof x.author === 'string' && x.author) out.author = x.author;
+  if (typeof x.section === 'string' && x.section) out.section = x.section;
+  if (typeof x.summarizedBy === 'string' && x.summarizedBy) out.summarizedBy = x.summarizedBy;
+  if (x.classification && typeof x.classification === 'object') out.classification = x.classification;
+  if (typeof x.importance === 'number') out.importance = x.importance;
+  if (x.factors && typeof x.factors === 'object') out.factors = x.factors;
+  if (x.post && typeof x.post === 'object') out.post = x.post;
+  return out;
+}
+
+export type MigrationResult = {
+  items: any[];
+  idMap: Record<string, string>;  // 旧 id → 新 id（変わったものだけ）
+};
+
+/**
+ * ファイル全体を現行スキーマへ寄せる
+ * v3 未満は id を URL ハッシュへ振り直し、正規化 URL が同じ項目は先勝ちで1件にまとめる
+ */
+export function migrateItems(items: any[], fromVersion: number): MigrationResult {
+  const migrated = items.map(migrateItem);
+  if (fromVersion >= 3) return { items: migrated, idMap: {} };
+
+  const idMap: Record<string, string> = {};
+  const byId = new Map<string, any>();
+  const out: any[] = [];
+  for (const x of migrated) {
+    // URL が不正な項目は振り直さず、検証で弾かせる
+    if (!x || typeof x.url !== 'string' || !/^https?:\/\//i.test(x.url)) {
+      out.push(x);
+      continue;
+    }
+    const id = itemIdFromUrl(x.url);
+    if (x.id && x.id !== id) idMap[x.id] = id;
+    if (byId.has(id)) continue;
+    const next = { ...x, id };
+    byId.set(id, next);
+    out.push(next);
+  }
+  return { items: out, idMap };
+}
+
+/**
+ * データファイルの中身（旧: 配列 / 新: { schemaVersion, items }）から項目配列を取り出す
+ */
+export function unwrapNewsFile(raw: any): { schemaVersion: number; items: any[] } {
+  if (Array.isArray(raw)) return { schemaVersion: 1, items: raw };
+  if (raw && typeof raw === 'object' && Array.isArray(raw.items)) {
+    return { schemaVersion: typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 1, items: raw.items };
+  }
+  throw new Error('news.json の形式を判別できません（配列または { schemaVersion, items } を想定）');
+}
+
+function normalizeDate(v: any): string | null {
+  if (v === null || v === undefined || v === '') return null;
+  if (typeof v !== 'string') return v;
+  const d = new Date(v);
+  // 既存データのタイムゾーン表記（+09:00 など）はそのまま残す
+  return Number.isNaN(+d) ? v : v.trim();
+}
+
+function normalizeTicker(t: any): string {
+  if (typeof t !== 'string') return '';
+  const s = t.trim().toUpperCase();
+  if (/^\d[0-9A-Z]\d[0-9A-Z][0-9A-Z]?$/.test(s)) return `${s}.T`;
+  return s;
+}
@@ -0,0 +1,193 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { NewsItem } from './schema';
+import { NEWS_JSON, assertValidItems, diffNewsItems, printNewsDiff, readNewsFile, serializeNewsFile } from './news-file';
+
+/**
+ * news.json のデータストア
+ *   - <file>.lock による排他（並行実行したフェッチャー同士の取りこぼし防止）
+ *   - 一時ファイルへ書いてから rename（途中で落ちても JSON が壊れない）
+ *   - 書き込み前の内容を BACKUP_DIR に世代保存し、restore で戻せる
+ */
+
+export const BACKUP_DIR = process.env.NEWS_BACKUP_DIR || '.backups/news';
+const BACKUP_KEEP = parseInt(process.env.NEWS_BACKUP_KEEP || '10', 10);
+const LOCK_TIMEOUT_MS = parseInt(process.env.NEWS_LOCK_TIMEOUT_MS || '30000', 10);
+// これより古いロックは異常終了の残骸とみなして奪う
+const LOCK_STALE_MS = 10 * 60 * 1000;
+
+export type UpdateOptions = {
+  dryRun?: boolean;  // true なら書き込まず、現在のファイルとの差分だけを表示する
+};
+
+/**
+ * ロックを取ったうえで最新の news.json を読み、mutate の結果を書き戻す
+ * mutate が null を返した場合は書き込まない。戻り値は書き込んだかどうか
+ */
+export async function updateNewsFile(
+  mutate: (items: NewsItem[]) => NewsItem[] | null | Promise<NewsItem[] | null>,
+  opts: UpdateOptions = {},
+  file: string = NEWS_JSON
+): Promise<boolean> {
+  if (opts.dryRun) {
+    const before = readNewsFile(file);
+    const after = await mutate(before.slice());
+    if (!after) return false;
+    assertValidItems(after);
+    printNewsDiff(diffNewsItems(before, after));
+    console.log(`dry-run: ${file} は変更していません。`);
+    return false;
+  }
+
+  return withLock(file, async () => {
+    const before = readNewsFile(file);
+    const after = await mutate(before.slice());
+    if (!after) return false;
+    assertValidItems(after);
+    backupFile(file);
+    atomicWriteFile(file, serializeNewsFile(after));
+    return true;
+  });
+}
+
+export async function withLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${file}.lock`;
+  const started = Date.now();
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, JSON.stringify({ pid: process.pid, at: new Date().toISOString() }));
+      fs.closeSync(fd);
+      break;
+    } catch (e: any) {
+      if (e?.code !== 'EEXIST') throw e;
+      if (isStaleLock(lockPath)) {
+        removeStaleLock(lockPath);
+        continue;
+      }
+      if (Date.now() - started > LOCK_TIMEOUT_MS) {
+        throw new Error(`ロック取得待ちがタイムアウトしました（他のフェッチャーが実行中の可能性）: ${lockPath}`);
+      }
+      await sleep(200);
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * 残骸と判定したロックを自分だけの名前へ rename してから消す
+ * 判定から rename までの間に別プロセスが取り直したロックだった場合（rename 後の判定で生きている）は元に戻す
+ */
+function removeStaleLock(lockPath: string) {
+  const claimed = `${lockPath}.${process.pid}.stale`;
+  try {
+    fs.renameSync(lockPath, claimed);
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return; // 他のプロセスが先に解除した
+    throw e;
+  }
+  if (isStaleLock(claimed)) {
+    console.warn(`ロック: 残っていたロックを解除しました: ${lockPath}`);
+  } else {
+    try {
+      // link は lockPath が既にあれば失敗する（その間に取られたロックは上書きしない）
+      fs.linkSync(claimed, lockPath);
+    } catch (e: any) {
+      if (e?.code !== 'EEXIST') throw e;
+    }
+  }
+  fs.rmSync(claimed, { force: true });
+}
+
+function isStaleLock(lockPath: string): boolean {
+  try {
+    const stat = fs.statSync(lockPath);
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) return true;
+    const { pid } = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+    if (typeof pid !== 'number') return false;
+    // プロセスが存在しなければ残骸（kill(pid, 0) はシグナルを送らず存在確認のみ）
+    process.kill(pid, 0);
+    return false;
+  } catch (e: any) {
+    if (e?.code === 'ESRCH') return true;
+    if (e?.code === 'ENOENT') return false; // 直前に解放された
+    return false;
+  }
+}
+
+/**
+ * 同じディレクトリの一時ファイルへ書いてから rename で置き換える
+ */
+export function atomicWriteFile(file: string, content: string) {
+  const tmp = path.join(path.dirname(file), `.${path.basename(file)}.${process.pid}.tmp`);
+  const fd = fs.openSync(tmp, 'w');
+  try {
+    fs.writeSync(fd, content, null, 'utf-8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmp, file);
+}
+
+/**
+ * 現在のファイルを BACKUP_DIR へ複製し、古い世代を BACKUP_KEEP 件まで削る
+ */
+export function backupFile(file: string): string | null {
+  if (!fs.existsSync(file)) return null;
+  fs.mkdirSync(BACKUP_DIR, { recursive: true });
+
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').replace(/\..*$/, '');
+  const ext = path.extname(file);
+  const dest = path.join(BACKUP_DIR, `${path.basename(file, ext)}-${stamp}-${process.pid}${ext}`);
+  fs.copyFileSync(file, dest);
+
+  for (const old of listBackups(file).slice(BACKUP_KEEP)) {
+    fs.rmSync(old, { force: true });
+  }
+  return dest;
+}
+
+/**
+ * バックアップの一覧（新しい順）
+ */
+export function listBackups(file: string = NEWS_JSON): string[] {
+  if (!fs.existsSync(BACKUP_DIR)) return [];
+  const ext = path.extname(file);
+  const prefix = `${path.basename(file, ext)}-`;
+  return fs.readdirSync(BACKUP_DIR)
+    .filter(f => f.startsWith(prefix) && f.endsWith(ext))
+    .sort()
+    .reverse()
+    .map(f => path.join(BACKUP_DIR, f));
+}
+
+/**
+ * バックアップから復元する（which: 一覧の番号 0=最新、またはファイルパス）
+ * 復元前の内容もバックアップされるため、復元自体も取り消せる
+ */
+export async function restoreBackup(which: string | number = 0, file: string = NEWS_JSON): Promise<string> {
+  const backups = listBackups(file);
+  const src = typeof which === 'number' ? backups[which] : which;
+  if (!src || !fs.existsSync(src)) throw new Error(`バックアップが見つかりません: ${src ?? `#${which}`}`);
+
+  // 壊れたバックアップで上書きしないよう、読めることと妥当性を先に確かめる
+  const items = readNewsFile(src);
+  assertValidItems(items);
+
+  await withLock(file, async () => {
+    backupFile(file);
+    atomicWriteFile(file, serializeNewsFile(items));
+  });
+  return src;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
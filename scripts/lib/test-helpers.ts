@@ -0,0 +1,52 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+import { NewsItem } from './schema';
+
+/**
+ * テスト（scripts/<dir>/*.test.ts）で共通に使う部品
+ *   testItem        必須項目を埋めた NewsItem（id と title 以外は上書きしたいものだけ渡す）
+ *   withStubServer  127.0.0.1 の空きポートで HTTP サーバを立て、作業用の一時ディレクトリと一緒に片付ける
+ */
+
+export function testItem(fields: Partial<NewsItem> & Pick<NewsItem, 'id' | 'title'>): NewsItem {
+  return {
+    category: 'market',
+    summary: '',
+    source: 'テスト通信',
+    url: `https://example.com/${encodeURIComponent(fields.id)}`,
+    publishedAt: '2026-01-01T00:00:00.000Z',
+    tags: [],
+    locale: 'ja',
+    verified: true,
+    thumbnail: '',
+    ...fields,
+  };
+}
+
+// リクエスト本文まで読んでから呼ぶ。応答しなければ（res.end しなければ）タイムアウトの確認に使える
+export type StubHandler = (req: http.IncomingMessage, body: string, res: http.ServerResponse) => void;
+
+export type StubContext = {
+  baseUrl: string;  // 例: "http://127.0.0.1:54321"（末尾の / なし）
+  dir: string;      // 一時ディレクトリ（終了時に消す）
+};
+
+export async function withStubServer(handler: StubHandler, fn: (ctx: StubContext) => Promise<void>): Promise<void> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', c => { body += c; });
+    req.on('end', () => handler(req, body, res));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fin-news-test-'));
+  try {
+    await fn({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, dir });
+  } finally {
+    server.closeAllConnections();
+    server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
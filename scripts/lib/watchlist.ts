@@ -0,0 +1,104 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { NEWS_JSON } from './news-file';
+import { NewsItem } from './schema';
+
+/**
+ * チームのウォッチリスト（assets/data/watchlists.json）
+ * 銘柄・キーワード・X アカウントを名前付きのリストで定義し、各フェッチャーとフロント（app.js）が共通で読む
+ *   TDnet  対象銘柄（TDNET_CODES 未指定時）
+ *   X      既定の取得対象（X_TARGETS）に xAccounts を加える
+ *   全体   取り込んだ項目に一致したリストの id を watchlists として付ける
+ * WATCHLISTS=core,macro のように id で対象リストを絞れる（未指定なら全リスト）
+ */
+
+export const WATCHLISTS_JSON = process.env.WATCHLISTS_FILE || path.join(path.dirname(NEWS_JSON), 'watchlists.json');
+
+const ONLY_LISTS = (process.env.WATCHLISTS || '')
+  .split(',')
+  .map(s => s.trim())
+  .filter(Boolean);
+
+export type WatchTicker = {
+  ticker: string;  // 例: "7203.T"
+  name: string;    // 表示名
+};
+
+export type Watchlist = {
+  id: string;
+  name: string;
+  tickers: WatchTicker[];
+  keywords: string[];
+  xAccounts: string[];  // ウォッチするアカウント。例: "@nikkei"（X の取得対象すべてではない）
+};
+
+export function loadWatchlists(onlyIds: string[] = ONLY_LISTS, file: string = WATCHLISTS_JSON): Watchlist[] {
+  if (!fs.existsSync(file)) throw new Error(`ウォッチリストが見つかりません: ${file}`);
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!raw || !Array.isArray(raw.lists)) throw new Error(`ウォッチリストの形式が不正です（{ lists: [...] } を想定）: ${file}`);
+
+  const lists: Watchlist[] = raw.lists.map((l: any) => ({
+    id: String(l.id || ''),
+    name: String(l.name || l.id || ''),
+    tickers: Array.isArray(l.tickers) ? l.tickers.filter((t: any) => t && typeof t.ticker === 'string') : [],
+    keywords: Array.isArray(l.keywords) ? l.keywords.filter((k: any) => typeof k === 'string' && k) : [],
+    xAccounts: Array.isArray(l.xAccounts) ? l.xAccounts.filter((h: any) => typeof h === 'string' && h) : [],
+  }));
+  for (const l of lists) {
+    if (!l.id) throw new Error(`id の無いウォッチリストがあります: ${file}`);
+  }
+  if (onlyIds.length === 0) return lists;
+
+  const unknown = onlyIds.filter(id => !lists.some(l => l.id === id));
+  if (unknown.length) throw new Error(`ウォッチリストが見つかりません: ${unknown.join(', ')}（${file}）`);
+  return lists.filter(l => onlyIds.includes(l.id));
+}
+
+/**
+ * 対象銘柄（4桁コード）の和集合
+ */
+export function watchedCodes(lists: Watchlist[]): string[] {
+  return uniq(lists.flatMap(l => l.tickers.map(t => t.ticker.replace(/\.T$/i, ''))));
+}
+
+/**
+ * 取得する X アカウント: base にウォッチ対象のアカウントを加えた和集合（大文字小文字違いは1つにまとめる）
+ */
+export function xFetchTargets(lists: Watchlist[], base: string[] = []): string[] {
+  const seen = new Set<string>();
+  return [...base, ...lists.flatMap(l => l.xAccounts)].filter(h => {
+    const k = h.toLowerCase();
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * 項目が一致するリストの id（銘柄・キーワード・X アカウントのいずれか）
+ */
+export function matchWatchlists(item: NewsItem, lists: Watchlist[]): string[] {
+  const text = `${item.title} ${item.summary}`.toLowerCase();
+  // X のリポストは元の投稿者が source なので、リポストしたアカウントでも照合する
+  const accounts = [item.source, item.post?.repostedBy ? `X: ${item.post.repostedBy}` : ''].map(s => s.toLowerCase());
+  return lists
+    .filter(l =>
+      l.tickers.some(t => (item.tickers || []).includes(t.ticker)) ||
+      l.keywords.some(k => text.includes(k.toLowerCase())) ||
+      l.xAccounts.some(h => accounts.includes(`x: ${h.toLowerCase()}`)))
+    .map(l => l.id);
+}
+
+/**
+ * 取り込み時に watchlists を付ける（一致なしなら項目を変えない）
+ */
+export function tagWatchlists<T extends NewsItem>(items: T[], lists: Watchlist[]): T[] {
+  return items.map(x => {
+    const ids = matchWatchlists(x, lists);
+    return ids.length ? { ...x, watchlists: ids } : x;
+  });
+}
+
+function uniq(list: string[]): string[] {
+  return [...new Set(list)];
+}
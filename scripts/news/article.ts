@@ -0,0 +1,117 @@
+import { Page } from 'playwright';
+
+/**
+ * 記事ページのメタ情報（要約・代表画像・著者・セクション・正規 URL）
+ * 日付取得のために開いた記事ページからまとめて読む
+ *   要約     og:description → meta description → 本文の冒頭段落
+ *   画像     og:image → twitter:image
+ *   著者     meta author / article:author → JSON-LD の author → rel="author"
+ *   セクション article:section → JSON-LD の articleSection → パンくずの末尾
+ *   正規 URL link[rel=canonical] → og:url（同じサイトの記事 URL のときだけ採用）
+ */
+
+export type ArticleMeta = {
+  summary: string;
+  image: string;
+  author: string;
+  section: string;
+  canonicalUrl: string;   // 採用できない場合は空
+};
+
+// 冒頭段落とみなす最短の長さ（「写真：…」「関連記事」等の短い行を避ける）
+const MIN_LEAD_LENGTH = 40;
+
+type RawMeta = {
+  description: string;
+  lead: string;
+  image: string;
+  author: string;
+  section: string;
+  canonical: string;
+};
+
+export async function readArticleMeta(page: Page): Promise<ArticleMeta> {
+  const raw: RawMeta = await page.evaluate((minLead) => {
+    const meta = (...keys: string[]) => {
+      for (const k of keys) {
+        const v = document.querySelector(`meta[property="${k}"], meta[name="${k}"]`)?.getAttribute('content');
+        if (v && v.trim()) return v.trim();
+      }
+      return '';
+    };
+
+    // JSON-LD（NewsArticle 等）。@graph・配列の入れ子も見る
+    const ld: any[] = [];
+    document.querySelectorAll('script[type="application/ld+json"]').forEach(s => {
+      try {
+        const walk = (v: any) => {
+          if (Array.isArray(v)) v.forEach(walk);
+          else if (v && typeof v === 'object') { ld.push(v); if (v['@graph']) walk(v['@graph']); }
+        };
+        walk(JSON.parse(s.textContent || ''));
+      } catch { /* 壊れた JSON-LD は無視 */ }
+    });
+    const article = ld.find(v => /Article|Posting/.test(String(v['@type'] || ''))) || {};
+    const nameOf = (v: any): string => {
+      if (!v) return '';
+      if (typeof v === 'string') return v;
+      if (Array.isArray(v)) return v.map(nameOf).filter(Boolean).join('、');
+      return typeof v.name === 'string' ? v.name : '';
+    };
+
+    const lead = Array.from(document.querySelectorAll('article p, main p, [itemprop="articleBody"] p'))
+      .map(p => (p.textContent || '').replace(/\s+/g, ' ').trim())
+      .find(t => t.length >= minLead) || '';
+    const crumbs = Array.from(document.querySelectorAll('.breadcrumb a, [aria-label*="breadcrumb" i] a, nav.breadcrumbs a'))
+      .map(a => (a.textContent || '').trim())
+      .filter(Boolean);
+
+    return {
+      description: meta('og:description', 'description', 'twitter:description'),
+      lead,
+      image: meta('og:image', 'og:image:url', 'twitter:image'),
+      author: [meta('author', 'article:author'), nameOf(article.author), document.querySelector('[rel="author"]')?.textContent?.trim() || '']
+        .find(v => v && !/^https?:\/\//i.test(v)) || '',
+      section: meta('article:section') || nameOf(article.articleSection) || crumbs[crumbs.length - 1] || '',
+      canonical: document.querySelector('link[rel="canonical"]')?.getAttribute('href') || meta('og:url'),
+    };
+  }, MIN_LEAD_LENGTH);
+
+  const pageUrl = page.url();
+  return {
+    summary: raw.description || raw.lead,
+    image: toAbs(pageUrl, raw.image),
+    author: raw.author.replace(/\s+/g, ' ').trim(),
+    section: raw.section.replace(/\s+/g, ' ').trim(),
+    canonicalUrl: pickCanonical(pageUrl, raw.canonical),
+  };
+}
+
+/**
+ * 記事が自己申告する正規 URL を採用してよいか判定する
+ * 別サイト・トップページ・http(s) 以外を指すもの（テンプレートの設定誤り等）は採用しない
+ */
+export function pickCanonical(articleUrl: string, canonical: string): string {
+  if (!canonical) return '';
+  try {
+    const a = new URL(articleUrl);
+    const c = new URL(canonical, articleUrl);
+    if (!/^https?:$/.test(c.protocol)) return '';
+    const host = (h: string) => h.toLowerCase().replace(/^www\./, '');
+    if (host(a.hostname) !== host(c.hostname)) return '';
+    if (c.pathname.replace(/\/+$/, '') === '') return '';
+    return c.toString();
+  } catch {
+    return '';
+  }
+}
+
+function toAbs(base: string, href: string): string {
+  if (!href) return '';
+  try {
+    const u = new URL(href, base);
+    return /^https?:$/.test(u.protocol) ? u.toString() : '';
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,88 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { fetchFeed, parseFeed } from './feed';
+
+/**
+ * フィードの取り込み（fixtures/ の RSS 2.0 / Atom / RDF）
+ */
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const read = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf-8');
+
+test('RSS 2.0: 相対リンクの解決、guid、サムネイル（media / enclosure / 本文の img）', () => {
+  const entries = parseFeed(read('rss.xml'), 'https://news.example.jp/market/');
+  assert.deepEqual(entries, [
+    {
+      title: '日経平均、3日続伸 & 半導体株に買い',
+      url: 'https://news.example.jp/market/20240102-001',
+      publishedAt: '2024-01-02T06:30:00.000Z',
+      summary: '2日の東京株式市場で日経平均株価は3日続伸した。',
+      thumbnail: 'https://img.example.jp/20240102-001.jpg',
+    },
+    {
+      title: '日銀、金融政策決定会合の日程を公表',
+      url: 'https://news.example.jp/market/20240102-002',
+      publishedAt: '2024-01-02T01:00:00.000Z',
+      summary: '日本銀行は2024年の金融政策決定会合の日程を公表した。',
+      thumbnail: 'https://img.example.jp/20240102-002.png',
+    },
+    {
+      title: 'guid のみの記事',
+      url: 'https://news.example.jp/market/20240102-003',
+      publishedAt: '2024-01-02T00:00:00.000Z',
+      summary: '本文の画像をサムネイルにする。',
+      thumbnail: 'https://img.example.jp/20240102-003.jpg',
+    },
+  ]);
+});
+
+test('Atom: alternate / enclosure のリンク、published が無ければ updated', () => {
+  assert.deepEqual(parseFeed(read('atom.xml')), [
+    {
+      title: 'トヨタ、新型EVを発表 & 量産へ',
+      url: 'https://atom.example.jp/articles/1001',
+      publishedAt: '2024-01-02T01:00:00.000Z',
+      summary: 'トヨタ自動車は2日、新型の電気自動車を発表した。',
+      thumbnail: 'https://atom.example.jp/images/1001.jpg',
+    },
+    {
+      title: 'ソニーG、自社株買いを発表',
+      url: 'https://atom.example.jp/articles/1002',
+      publishedAt: '2024-01-02T02:30:00.000Z',
+      summary: 'ソニーグループは自己株式の取得を発表した。',
+      thumbnail: 'https://atom.example.jp/images/1002.jpg',
+    },
+  ]);
+});
+
+test('RDF: channel の外の item、dc:date、link が無ければ rdf:about', () => {
+  assert.deepEqual(parseFeed(read('rdf.xml')), [
+    {
+      title: '円相場、1ドル=141円台',
+      url: 'https://rdf.example.jp/economy/2001.html',
+      publishedAt: '2024-01-02T07:45:00.000Z',
+      summary: '2日の外国為替市場で円相場は1ドル=141円台で推移した。',
+      thumbnail: '',
+    },
+    {
+      title: 'link 要素の無い項目は rdf:about を使う',
+      url: 'https://rdf.example.jp/economy/2002.html',
+      publishedAt: '2024-01-01T23:00:00.000Z',
+      summary: 'RSS 1.0 の rdf:about は記事の URL。',
+      thumbnail: '',
+    },
+  ]);
+});
+
+test('ローカルファイルパスと file:// から読める', async () => {
+  const file = path.join(FIXTURES, 'rdf.xml');
+  assert.equal((await fetchFeed(file)).length, 2);
+  assert.equal((await fetchFeed(pathToFileURL(file).href)).length, 2);
+});
+
+test('フィードでない XML はエラー', () => {
+  assert.throws(() => parseFeed('<html><body></body></html>'), /フィード形式を判別できません/);
+});
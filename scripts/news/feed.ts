@@ -0,0 +1,155 @@
+import fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { XMLParser } from 'fast-xml-parser';
+import { parseJstDate } from '../lib/dates';
+import { USER_AGENT } from '../lib/crawl';
+
+/**
+ * RSS 2.0 / Atom 1.0 / RSS 1.0(RDF) の取り込み（ブラウザ不要）
+ * 取得元は http(s) のほか、ローカルファイルパス / file:// も受け付ける（フィクスチャ検証用）
+ */
+
+export type FeedEntry = {
+  title: string;
+  url: string;
+  publishedAt: string | null; // ISO8601
+  summary: string;
+  thumbnail: string;
+};
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: false,
+  textNodeName: '#text',
+  trimValues: true,
+  processEntities: true,
+  htmlEntities: true,
+});
+
+export async function fetchFeed(src: string, timeoutMs = 15000): Promise<FeedEntry[]> {
+  return parseFeed(await loadFeedText(src, timeoutMs), src);
+}
+
+export async function loadFeedText(src: string, timeoutMs = 15000, userAgent: string = USER_AGENT): Promise<string> {
+  if (/^file:\/\//i.test(src)) return fs.readFileSync(fileURLToPath(src), 'utf-8');
+  if (!/^https?:\/\//i.test(src)) return fs.readFileSync(src, 'utf-8');
+
+  const res = await fetch(src, {
+    headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8', 'User-Agent': userAgent },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!res.ok) throw new Error(`フィード取得失敗: ${res.status} ${src}`);
+  return res.text();
+}
+
+/**
+ * フィード文字列を共通のエントリ形式へ変換する
+ * baseUrl は相対リンクの解決に使う（ローカルファイルの場合は解決しない）
+ * now は年・日付の無い日時を補う基準（再生時は記録時の時刻を渡す）
+ */
+export function parseFeed(xml: string, baseUrl?: string, now: Date = new Date()): FeedEntry[] {
+  const doc = parser.parse(xml);
+
+  if (doc.rss?.channel) {
+    return asArray(doc.rss.channel.item).map(it => fromRssItem(it, baseUrl, now)).filter(isUsable);
+  }
+  if (doc.feed) {
+    return asArray(doc.feed.entry).map(it => fromAtomEntry(it, baseUrl, now)).filter(isUsable);
+  }
+  if (doc['rdf:RDF']) {
+    // RSS 1.0 は item が channel の外に並ぶ
+    return asArray(doc['rdf:RDF'].item).map(it => fromRssItem(it, baseUrl, now)).filter(isUsable);
+  }
+  throw new Error('フィード形式を判別できません（RSS 2.0 / Atom / RDF を想定）');
+}
+
+function fromRssItem(it: any, baseUrl: string | undefined, now: Date): FeedEntry {
+  const html = text(it['content:encoded']) || text(it.description);
+  return {
+    title: cleanText(text(it.title)),
+    url: resolveUrl(text(it.link) || guidLink(it.guid) || it['@_rdf:about'] || '', baseUrl),
+    publishedAt: parseJstDate(text(it.pubDate) || text(it['dc:date']) || text(it.published) || text(it.updated), now),
+    summary: clip(stripHtml(text(it.description) || html), 200),
+    thumbnail: resolveUrl(pickThumbnail(it, html), baseUrl),
+  };
+}
+
+function fromAtomEntry(it: any, baseUrl: string | undefined, now: Date): FeedEntry {
+  const links = asArray(it.link);
+  const alt = links.find(l => !l['@_rel'] || l['@_rel'] === 'alternate') || links[0];
+  const enclosure = links.find(l => l['@_rel'] === 'enclosure' && /^image\//.test(l['@_type'] || ''));
+  const html = text(it.content) || text(it.summary);
+  return {
+    title: cleanText(text(it.title)),
+    url: resolveUrl((alt && alt['@_href']) || '', baseUrl),
+    publishedAt: parseJstDate(text(it.published) || text(it.updated), now),
+    summary: clip(stripHtml(text(it.summary) || html), 200),
+    thumbnail: resolveUrl((enclosure && enclosure['@_href']) || pickThumbnail(it, html), baseUrl),
+  };
+}
+
+function pickThumbnail(it: any, html: string): string {
+  const media = asArray(it['media:thumbnail'])[0] || asArray(it['media:content']).find(m => !m['@_medium'] || m['@_medium'] === 'image');
+  if (media && media['@_url']) return media['@_url'];
+  const enc = asArray(it.enclosure).find(e => /^image\//.test(e['@_type'] || ''));
+  if (enc && enc['@_url']) return enc['@_url'];
+  const m = (html || '').match(/<img[^>]+src=["']([^"']+)["']/i);
+  return m ? m[1] : '';
+}
+
+function guidLink(guid: any): string {
+  // isPermaLink="false" の guid は URL ではない
+  if (!guid) return '';
+  if (typeof guid === 'object' && guid['@_isPermaLink'] === 'false') return '';
+  const s = text(guid);
+  return /^https?:\/\//i.test(s) ? s : '';
+}
+
+function isUsable(e: FeedEntry): boolean {
+  return !!e.title && /^https?:\/\//i.test(e.url);
+}
+
+function asArray<T = any>(v: T | T[] | undefined | null): T[] {
+  if (v === undefined || v === null) return [];
+  return Array.isArray(v) ? v : [v];
+}
+
+function text(v: any): string {
+  if (v === undefined || v === null) return '';
+  if (typeof v === 'object') return text(v['#text']);
+  return String(v).trim();
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  if (!href) return '';
+  if (/^https?:\/\//i.test(href)) return href;
+  if (!baseUrl || !/^https?:\/\//i.test(baseUrl)) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+function stripHtml(s: string): string {
+  return (s || '')
+    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
+    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+function cleanText(s: string): string {
+  return stripHtml(s).replace(/\s+/g, ' ').trim();
+}
+
+function clip(s: string, len: number): string {
+  const t = s.replace(/\s+/g, ' ').trim();
+  return t.length > len ? t.slice(0, len - 1) + '…' : t;
+}
@@ -1,74 +1,140 @@
 import { chromium, BrowserContext, Page } from 'playwright';
 import fs from 'node:fs';
 import path from 'node:path';
+import { NewsItem } from '../lib/schema';
+import { NEWS_JSON, readNewsFile } from '../lib/news-file';
+import { updateNewsFile } from '../lib/store';
+import { itemIdFromUrl } from '../lib/ids';
+import { assignClusters } from '../lib/cluster';
+import { assignImportance } from '../lib/importance';
+import { parseJstDate } from '../lib/dates';
+import { linkTickers } from '../entities/linker';
+import { loadWatchlists, tagWatchlists } from '../lib/watchlist';
+import { summarizeItems } from '../enrich/summarize';
+import { alertNewItems } from '../alerts/alerts';
+import { RunRecorder, RunReport, SourceStats, countDuplicates, finishRun, startRun } from '../health/report';
+import { SourceAdapter, SourceCategory, loadSourceAdapters } from './sources';
+import { loadFeedText, parseFeed } from './feed';
+import { readArticleMeta } from './article';
+import { Classifier, createClassifier, toItemClassification } from '../classify/classifier';
+import { RUN_MODE, openContext, settleSnapshot, snapshotMissing, snapshotText, snapshotValue } from '../lib/replay';
+import { CRAWL_CONCURRENCY, Crawler, PagePool, createCrawler, openPagePool } from '../lib/crawl';
+
+type PressItem = NewsItem & { category: 'market' | 'company' };
 
-type PressItem = {
-  id: string;
-  category: 'market' | 'company';
-  title: string;
-  summary: string;
-  source: string;
-  url: string;
-  publishedAt: string | null; // ISO8601
-  tags: string[];
-  locale: 'ja';
-  verified: boolean;
-  thumbnail: string;
-  type?: string;        // 例: 'macro' | 'companyNews' など
-  tickers?: string[];   // 例: ["7203.T"]
-};
-
-// 収集対象（企業タブ強化のため、企業ページやビジネス/企業カテゴリに寄せるURLを追加）
-const TARGETS = [
-  { name: 'Reuters Japan', base: 'https://jp.reuters.com', pages: [
-      'https://jp.reuters.com/companies',     // 企業
-      'https://jp.reuters.com/business',      // ビジネス
-      'https://jp.reuters.com/markets',       // マーケット（補助）
-    ]},
-  { name: 'Nikkei', base: 'https://www.nikkei.com', pages: [
-      'https://www.nikkei.com/business/',     // 企業・ビジネス
-      'https://www.nikkei.com/markets/',      // マーケット（補助）
-    ]},
-  { name: 'Bloomberg Japan', base: 'https://www.bloomberg.co.jp', pages: [
-      'https://www.bloomberg.co.jp/companies', // 企業（相当カテゴリがあれば）
-      'https://www.bloomberg.co.jp/bloomberg', // トップ（補助）
-      'https://www.bloomberg.co.jp/markets'    // マーケット（補助）
-    ]},
-];
-
-const NEWS_JSON = 'assets/data/news.json';
 const PER_SITE_LIMIT = parseInt(process.env.PRESS_PER_SITE_LIMIT || '12', 10);
 const GLOBAL_LIMIT = parseInt(process.env.PRESS_GLOBAL_LIMIT || '60', 10);
+// 対象ソースを id で絞る（例: PRESS_SOURCES=nikkei,kabutan。未指定なら enabled のもの全て）
+const ONLY_SOURCES = (process.env.PRESS_SOURCES || '')
+  .split(',')
+  .map(s => s.trim())
+  .filter(Boolean);
 
 // 企業タブの最低追加件数（なければ企業寄りに補正）
 const MIN_COMPANY_ITEMS = parseInt(process.env.MIN_COMPANY_ITEMS || '6', 10);
 
-async function main() {
+// CLI（scripts/cli.ts）から渡す設定。未指定の項目は上の環境変数由来の既定値を使う
+export type PressOptions = {
+  perSiteLimit?: number;
+  globalLimit?: number;
+  minCompanyItems?: number;
+  sources?: string[];
+  watchlists?: string[];  // 照合するウォッチリストの id（未指定なら WATCHLISTS / 全リスト）
+  concurrency?: number;   // 記事ページを同時に開く数（既定 CRAWL_CONCURRENCY）
+  userAgent?: string;     // 既定 CRAWLER_USER_AGENT
+  dryRun?: boolean;
+};
+
+// 一覧ページの巡回で使い回すもの（lib/crawl.ts）
+type SiteCrawl = {
+  crawler: Crawler;
+  pool: PagePool;
+  knownIds: Set<string>;  // news.json にある項目の id（開く前に除く）
+  now: Date;              // 相対・年なしの日時を解釈する基準
+};
+
+export async function fetchPress(opts: PressOptions = {}): Promise<RunReport> {
+  const run = startRun('press', { dryRun: opts.dryRun });
+  try {
+    const added = await pressRun(opts, run);
+    // 追記した項目で通知ルールを評価する（dry-run では一致を表示するだけ）。新着が無い回も持ち越した分は送る
+    await alertNewItems(added, { dryRun: opts.dryRun });
+  } catch (e) {
+    finishRun(run, e);
+    throw e;
+  }
+  return finishRun(run);
+}
+
+async function pressRun(opts: PressOptions, run: RunRecorder): Promise<NewsItem[]> {
+  const perSiteLimit = opts.perSiteLimit ?? PER_SITE_LIMIT;
+  const globalLimit = opts.globalLimit ?? GLOBAL_LIMIT;
+  const minCompanyItems = opts.minCompanyItems ?? MIN_COMPANY_ITEMS;
+
   assertExists(NEWS_JSON, `news.json が見つかりません: ${NEWS_JSON}`);
+  if (snapshotMissing('press')) return [];
 
-  const browser = await chromium.launch({ headless: true });
-  const ctx = await browser.newContext();
-  const page = await ctx.newPage();
+  const sources = loadSourceAdapters(undefined, opts.sources ?? ONLY_SOURCES);
+  if (sources.length === 0) {
+    console.log('press: 有効なソースがありません。sources.json を確認してください。');
+    return [];
+  }
 
+  const classifier = createClassifier();
+  const crawler = createCrawler({ userAgent: opts.userAgent });
+  // 再生時は記録した時刻を基準にする（「3時間前」や年なしの日付が実行日によって変わらないように）
+  const now = new Date(snapshotValue('press', 'now', () => new Date().toISOString()));
   const collected: PressItem[] = [];
 
-  for (const site of TARGETS) {
-    for (const url of site.pages) {
-      if (collected.length >= GLOBAL_LIMIT) break;
+  // フィードを持つソースはブラウザを使わずに取り込む
+  for (const site of sources) {
+    for (const feed of site.feeds) {
+      if (collected.length >= globalLimit) break;
       try {
-        const list = await collectFromSite(page, site.name, site.base, url, PER_SITE_LIMIT);
+        const list = await collectFromFeed(crawler, now, site, feed.url, feed.category, perSiteLimit, classifier, run.source(site.name));
         collected.push(...list);
       } catch (e) {
-        console.warn(`収集失敗: ${site.name} ${url}`, e);
+        console.warn(`収集失敗: ${site.name} ${feed.url}`, e);
+        run.error(site.name, e);
+      }
+    }
+  }
+
+  // 一覧ページを持つソースがある場合のみブラウザを起動
+  if (sources.some(s => s.listPages.length > 0)) {
+    const browser = await chromium.launch({ headless: true });
+    const ctx = await openContext(browser, 'press', { userAgent: crawler.userAgent });
+    const pool = await openPagePool(ctx, opts.concurrency ?? CRAWL_CONCURRENCY);
+    // 記録/再生では抽出結果を news.json の状態に左右させない
+    const knownIds = new Set(RUN_MODE === 'live' ? readNewsFile().map(x => x.id) : []);
+    try {
+      const page = await ctx.newPage();
+      for (const site of sources) {
+        for (const listPage of site.listPages) {
+          if (collected.length >= globalLimit) break;
+          try {
+            const list = await collectFromSite(page, { crawler, pool, knownIds, now }, site, listPage.url, listPage.category, perSiteLimit, classifier, run.source(site.name));
+            collected.push(...list);
+          } catch (e) {
+            console.warn(`収集失敗: ${site.name} ${listPage.url}`, e);
+            run.error(site.name, e);
+          }
+        }
       }
+    } finally {
+      // 常駐（daemon）で失敗が続いてもブラウザを残さない
+      await pool.close();
+      await ctx.close();
+      await browser.close();
     }
   }
 
-  await browser.close();
+  // 記録/再生モードではここで終了（news.json は更新しない）
+  if (!settleSnapshot('press', collected)) return [];
 
   if (collected.length === 0) {
     console.log('press: 追加候補が見つかりませんでした。');
-    return;
+    return [];
   }
 
   // 24hで絞る（サイト側で時刻不明の場合は除外）
@@ -80,14 +146,14 @@ async function main() {
     return diff >= 0 && diff <= 24 * 60 * 60 * 1000;
   });
 
-  // 企業タブ不足時の補正: company件数が少なければ、marketのうち企業っぽいものを company へ昇格
+  // 企業タブ不足時の補正: company件数が少なければ、marketのうち企業寄りのルールにも当たったものを company へ昇格
   const companyCount = within24h.filter(x => x.category === 'company').length;
-  if (companyCount < MIN_COMPANY_ITEMS) {
-    const deficit = MIN_COMPANY_ITEMS - companyCount;
+  if (companyCount < minCompanyItems) {
+    const deficit = minCompanyItems - companyCount;
     let promoted = 0;
     within24h = within24h.map(x => {
       if (promoted >= deficit) return x;
-      if (x.category === 'market' && looksCompany(x.title, x.url)) {
+      if (x.category === 'market' && classifier.classify(x).scores['category:company'] > 0) {
         promoted++;
         return { ...x, category: 'company', type: x.type || 'disclosure' };
       }
@@ -97,71 +163,117 @@ async function main() {
 
   if (within24h.length === 0) {
     console.log('press: 24時間以内の記事が見つかりませんでした。');
-    return;
+    return [];
   }
 
-  // 既存との重複排除
-  const existing = JSON.parse(fs.readFileSync(NEWS_JSON, 'utf-8')) as any[];
-  const existingUrls = new Set(existing.map(x => (x && x.url) || ''));
-  const nextIdStart = calcNextIdStart(existing, 'news');
-
-  let idCounter = nextIdStart;
-  const toAppend: any[] = [];
-  for (const it of within24h) {
-    if (!it.url || existingUrls.has(it.url)) continue;
-    toAppend.push({
-      ...it,
-      id: `news-${idCounter++}`
-    });
-  }
+  // 企業名から tickers を補い、一致したウォッチリストを記録する
+  within24h = tagWatchlists(linkTickers(within24h), loadWatchlists(opts.watchlists));
+  // 要約・タグ付け（SUMMARIZER 未設定なら何もしない。既存の項目には問い合わせない）
+  within24h = await summarizeItems(within24h, { skipIds: new Set(readNewsFile().map(x => x.id)) });
+
+  // 既存との重複排除（ロック内で最新の news.json に対して行う）
+  let toAppend: NewsItem[] = [];
+  let merged: NewsItem[] = [];
+  const written = await updateNewsFile(existing => {
+    // id は正規化 URL のハッシュなので、id の一致で重複（既存・今回分とも）を判定できる
+    const existingIds = new Set(existing.map(x => x.id));
+    toAppend = [];
+    for (const it of within24h) {
+      if (!it.url || existingIds.has(it.id)) continue;
+      existingIds.add(it.id);
+      toAppend.push(it);
+    }
+    if (!toAppend.length) return null;
+    merged = assignImportance(assignClusters(existing.concat(toAppend)));
+    return merged;
+  }, { dryRun: opts.dryRun });
+  countDuplicates(run, within24h, toAppend);
 
   if (toAppend.length === 0) {
     console.log('press: 新規に追加できるURLはありません（既存と重複）。');
-    return;
+    return [];
   }
-
-  const merged = existing.concat(toAppend);
-  fs.writeFileSync(NEWS_JSON, JSON.stringify(merged, null, 2), 'utf-8');
-  const compAdded = toAppend.filter(x => x.category === 'company').length;
-  console.log(`press: news.json に ${toAppend.length} 件を追記しました。（うち企業カテゴリ ${compAdded} 件）`);
+  if (written) {
+    const compAdded = toAppend.filter(x => x.category === 'company').length;
+    console.log(`press: news.json に ${toAppend.length} 件を追記しました。（うち企業カテゴリ ${compAdded} 件）`);
+  }
+  // 追記した項目は重要度を付けた後のもので返す（通知ルールの評価に使う）
+  const addedIds = new Set(toAppend.map(x => x.id));
+  return merged.filter(x => addedIds.has(x.id));
 }
 
 function assertExists(p: string, msg?: string) {
   if (!fs.existsSync(p)) throw new Error(msg || `File not found: ${p}`);
 }
 
-function calcNextIdStart(items: any[], prefix: string): number {
-  // 既存 "prefix-N" の最大値+1を返す
-  let max = 0;
-  const re = new RegExp(`^${prefix}-(\\d+)$`);
-  for (const it of items) {
-    const m = typeof it?.id === 'string' ? it.id.match(re) : null;
-    if (m) {
-      const n = parseInt(m[1], 10);
-      if (!Number.isNaN(n)) max = Math.max(max, n);
+async function collectFromFeed(crawler: Crawler, now: Date, site: SourceAdapter, url: string, feedCategory: SourceCategory, perLimit: number, classifier: Classifier, stats: SourceStats): Promise<PressItem[]> {
+  if (!(await crawler.admit(url))) {
+    console.log(`${site.name}: robots.txt で禁止されているため読みません: ${url}`);
+    return [];
+  }
+  console.log(`収集(フィード): ${site.name} ${url}`);
+  const entries = parseFeed(await snapshotText('press', url, () => loadFeedText(url, undefined, crawler.userAgent)), url, now);
+  stats.pagesVisited++;
+  stats.linksSeen += entries.length;
+
+  const items: PressItem[] = [];
+  for (const e of entries) {
+    if (items.length >= perLimit) break;
+    // 日付が取れないものはスキップ（24h判定ができないため）
+    if (!e.publishedAt) {
+      stats.undated++;
+      continue;
     }
+
+    const c = classifier.classify({ title: e.title, summary: e.summary, url: e.url });
+    items.push({
+      id: itemIdFromUrl(e.url),
+      category: c.category || feedCategory,
+      title: clip(e.title, 140),
+      summary: e.summary,
+      source: site.name,
+      url: e.url,
+      publishedAt: e.publishedAt,
+      tags: [],
+      locale: 'ja',
+      verified: true,
+      thumbnail: e.thumbnail,
+      type: c.type ?? undefined,
+      tickers: [],
+      classification: toItemClassification(c)
+    });
   }
-  return max + 1;
+
+  stats.itemsExtracted += items.length;
+  console.log(`${site.name}: 抽出 ${items.length} 件`);
+  return items;
 }
 
-async function collectFromSite(page: Page, siteName: string, base: string, url: string, perLimit: number): Promise<PressItem[]> {
-  console.log(`収集: ${siteName} ${url}`);
+async function collectFromSite(page: Page, crawl: SiteCrawl, site: SourceAdapter, url: string, pageCategory: SourceCategory, perLimit: number, classifier: Classifier, stats: SourceStats): Promise<PressItem[]> {
+  if (!(await crawl.crawler.admit(url))) {
+    console.log(`${site.name}: robots.txt で禁止されているため開きません: ${url}`);
+    return [];
+  }
+  console.log(`収集: ${site.name} ${url}`);
   await page.goto(url, { waitUntil: 'domcontentloaded' });
+  stats.pagesVisited++;
 
-  // リンク候補を広く収集（aタグ）
-  const anchors = await page.locator('a[href]').elementHandles();
+  // リンク候補を収集（ソース設定のリンクセレクタ。既定は a[href]）。要素ごとに往復せず1回で読む
+  const anchors = await page.locator(site.linkSelector).evaluateAll(els => els.map(el => ({
+    href: el.getAttribute('href') || '',
+    text: el.textContent || '',
+  })));
 
   type Raw = { href: string; title: string };
 
   const raw: Raw[] = [];
   for (const a of anchors) {
     if (raw.length >= perLimit * 5) break; // 取りすぎ防止（緩め）
-    const href = await a.getAttribute('href');
-    let title = ((await a.textContent()) || '').trim().replace(/\s+/g, ' ');
-    if (!href) continue;
-    const abs = toAbs(base, href);
-    // ドメイン外や不要セクションを軽く除外（ヒューリスティック）
-    if (!abs.startsWith(base)) continue;
+    const title = a.text.trim().replace(/\s+/g, ' ');
+    if (!a.href) continue;
+    const abs = toAbs(site.base, a.href);
+    // ドメイン外や記事パターンに合わないリンクを除外
+    if (!site.matchesLink(abs)) continue;
     // タイトルが短すぎる/無意味な場合は除外
     if (!title || title.length < 6) continue;
 
@@ -173,69 +285,135 @@ async function collectFromSite(page: Page, siteName: string, base: string, url:
   for (const r of raw) {
     if (!uniqByHref.has(r.href)) uniqByHref.set(r.href, r);
   }
+  stats.linksSeen += uniqByHref.size;
+
+  // news.json に既にある記事は開かない
+  const candidates = [...uniqByHref.values()].filter(r => {
+    if (!crawl.knownIds.has(itemIdFromUrl(r.href))) return true;
+    stats.duplicates++;
+    return false;
+  });
 
-  // 各記事リンクに対して、詳細から日付を取得
+  // 各記事リンクに対して、詳細から日付・タイトル・要約・画像・著者・セクション・正規 URL を取得
+  // ページプールで並列に開き、日付の取れた記事が perLimit 件そろったら新しくは開かない
+  let dated = 0;
+  let blocked = 0;
+  const articles = await crawl.pool.map(candidates, async (p, r) => {
+    if (!(await crawl.crawler.admit(r.href))) {
+      blocked++;
+      return null;
+    }
+    const a = await readArticle(p, site, r, crawl.now);
+    stats.pagesVisited++;
+    if (a.publishedAt) dated++;
+    return a;
+  }, () => dated >= perLimit);
+  if (blocked) console.log(`${site.name}: robots.txt で禁止されている記事 ${blocked} 件を開きませんでした。`);
+
+  // 結果はリンクの順に並んでいるので、並列でも採用する記事は実行ごとに変わらない
   const items: PressItem[] = [];
-  for (const r of uniqByHref.values()) {
+  const seenIds = new Set<string>();
+  for (const a of articles) {
     if (items.length >= perLimit) break;
+    if (!a) continue;
 
-    let publishedAt: string | null = null;
-    let category: 'market' | 'company' = guessCategory(siteName, r.title, r.href);
-    let type: string | undefined = guessType(r.title, r.href);
-
-    try {
-      const p2 = await page.context().newPage();
-      await p2.goto(r.href, { waitUntil: 'domcontentloaded', timeout: 15000 }).catch(() => {});
-      // 汎用的な時刻セレクタ候補
-      const timeCandidates = [
-        'time[datetime]', 'time',
-        'meta[itemprop="datePublished"]',
-        'meta[property="article:published_time"]',
-        '.articleTime', '.time', '.date', '.datetime', 'span.date',
-        'header time', 'article time'
-      ];
-
-      for (const sel of timeCandidates) {
-        const loc = p2.locator(sel).first();
-        if (await loc.count() > 0) {
-          const isoAttr = await loc.getAttribute('datetime');
-          const txt = (await loc.textContent()) || '';
-          const iso = toISO(isoAttr || txt);
-          if (iso) { publishedAt = iso; break; }
-        }
-      }
-      await p2.close();
-    } catch {
-      // 無視して続行
+    // 日付が取れないものはスキップ（24h判定ができないため）
+    if (!a.publishedAt) {
+      stats.undated++;
+      continue;
     }
 
-    // 日付が取れないものはスキップ（24h判定ができないため）
-    if (!publishedAt) continue;
+    const id = itemIdFromUrl(a.url);
+    if (seenIds.has(id)) {
+      stats.duplicates++;
+      continue;
+    }
+    seenIds.add(id);
 
-    // 出典名
-    const source = siteName;
+    const c = classifier.classify({ title: a.title, summary: a.summary, url: a.url });
 
     items.push({
-      id: 'news-0',
-      category,
-      title: clip(r.title, 140),
-      summary: '',
-      source,
-      url: r.href,
-      publishedAt,
+      id,
+      category: c.category || pageCategory,
+      title: clip(a.title, 140),
+      summary: a.summary,
+      source: site.name,
+      url: a.url,
+      publishedAt: a.publishedAt,
       tags: [],
       locale: 'ja',
       verified: true,
-      thumbnail: '',
-      type,
-      tickers: []
+      thumbnail: a.thumbnail,
+      type: c.type ?? undefined,
+      tickers: [],
+      classification: toItemClassification(c),
+      ...(a.author ? { author: clip(a.author, 60) } : {}),
+      ...(a.section ? { section: clip(a.section, 40) } : {})
     });
   }
 
-  console.log(`${siteName}: 抽出 ${items.length} 件`);
+  stats.itemsExtracted += items.length;
+  console.log(`${site.name}: 抽出 ${items.length} 件`);
   return items;
 }
 
+type ArticleFields = {
+  url: string;
+  publishedAt: string | null;
+  title: string;
+  summary: string;
+  thumbnail: string;
+  author: string;
+  section: string;
+};
+
+/**
+ * 記事ページ1件を読む（一覧のリンク文字列を初期値にし、読めなかった項目はそのまま）
+ */
+async function readArticle(p: Page, site: SourceAdapter, link: { href: string; title: string }, now: Date): Promise<ArticleFields> {
+  const a: ArticleFields = { url: link.href, publishedAt: null, title: link.title, summary: '', thumbnail: '', author: '', section: '' };
+  try {
+    await p.goto(link.href, { waitUntil: 'domcontentloaded', timeout: 15000 }).catch(() => {});
+
+    for (const sel of site.dateSelectors) {
+      const v = await readFirst(p, sel);
+      const iso = parseJstDate(v, now);
+      if (iso) { a.publishedAt = iso; break; }
+    }
+    for (const sel of site.titleSelectors) {
+      const v = await readFirst(p, sel);
+      if (v && v.trim().length >= 6) { a.title = v.trim(); break; }
+    }
+    for (const sel of site.summarySelectors) {
+      const v = await readFirst(p, sel);
+      if (v && v.trim()) { a.summary = clip(v, 200); break; }
+    }
+    // サイト設定の要約セレクタが無い・当たらない場合は汎用のメタ情報で補う
+    const meta = await readArticleMeta(p).catch(() => null);
+    if (meta) {
+      if (!a.summary && meta.summary) a.summary = clip(meta.summary, 200);
+      a.thumbnail = meta.image;
+      a.author = meta.author;
+      a.section = meta.section;
+      // 一覧のリンクが計測付き・別経路の URL でも、正規 URL に揃えて重複を判定する
+      if (meta.canonicalUrl && site.matchesLink(meta.canonicalUrl)) a.url = meta.canonicalUrl;
+    }
+  } catch {
+    // 無視して続行
+  }
+  return a;
+}
+
+/**
+ * セレクタに一致した最初の要素から値を読む（datetime / content 属性を優先し、無ければ本文）
+ */
+async function readFirst(p: Page, sel: string): Promise<string | null> {
+  const loc = p.locator(sel).first();
+  if (await loc.count() === 0) return null;
+  const attr = (await loc.getAttribute('datetime')) || (await loc.getAttribute('content'));
+  return attr || (await loc.textContent()) || null;
+}
+
 function toAbs(base: string, href: string): string {
   try {
     if (/^https?:\/\//i.test(href)) return href;
@@ -250,50 +428,11 @@ function clip(s: string, len: number): string {
   return t.length > len ? t.slice(0, len - 1) + '…' : t;
 }
 
-function toISO(raw?: string | null): string | null {
-  const s = (raw || '').trim();
-  if (!s) return null;
-
-  // すでにISO程度で解釈可能ならそのまま
-  const d1 = new Date(s);
-  if (!Number.isNaN(+d1)) return d1.toISOString();
-
-  // よくある日付形式（yyyy/mm/dd hh:mm など）
-  const m = s.match(/(\d{4})[\/\.\-年](\d{1,2})[\/\.\-月](\d{1,2})[日\sT]*(\d{1,2})?:?(\d{2})?/);
-  if (m) {
-    const y = parseInt(m[1], 10);
-    const mo = parseInt(m[2], 10) - 1;
-    const d = parseInt(m[3], 10);
-    const hh = m[4] ? parseInt(m[4], 10) : 0;
-    const mm = m[5] ? parseInt(m[5], 10) : 0;
-    const dt = new Date(y, mo, d, hh, mm);
-    if (!Number.isNaN(+dt)) return dt.toISOString();
-  }
-
-  return null;
-}
-
-function guessCategory(source: string, title: string, href: string): 'market' | 'company' {
-  const t = (title + ' ' + href).toLowerCase();
-  if (/決算|業績|上方修正|下方修正|人事|m&a|買収|合併|子会社|提携|出資|上場|株価|配当|新製品|新サービス/.test(t)) return 'company';
-  return 'market';
-}
-
-function looksCompany(title: string, url: string): boolean {
-  const text = (title + ' ' + url).toLowerCase();
-  return /決算|業績|上方修正|下方修正|人事|m&a|買収|合併|子会社|提携|出資|上場|株価|配当|新製品|新サービス/.test(text);
-}
-
-function guessType(title: string, href: string): string | undefined {
-  const t = (title + ' ' + href).toLowerCase();
-  if (/cpi|pmi|gdp|景気|マクロ|統計|政策|fomc|日銀|利下げ|利上げ|物価|インフレ|失業率/.test(t)) return 'macro';
-  if (/決算|業績|通期|四半期|開示|ir|短信|有報|買収|合併/.test(t)) return 'disclosure';
-  if (/為替|ドル円|usd\/jpy|fx|通貨|ユーロ|ポンド/.test(t)) return 'fx';
-  if (/指数|日経平均|sp500|topix|先物|オプション|ナスダック|ダウ/.test(t)) return 'equityIndex';
-  return undefined;
-}
-
-main().catch(err => {
-  console.error(err);
-  process.exit(1);
-});
\ No newline at end of file
+if (require.main === module) {
+  fetchPress().then(r => {
+    if (r.flags.length) process.exitCode = 2;
+  }).catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+}
\ No newline at end of file
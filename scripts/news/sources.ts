@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+
+/**
+ * プレス収集元のレジストリ（scripts/news/sources.json）
+ * 新しい媒体の追加は設定の追記のみで行い、fetch-press.ts は編集しない
+ */
+
+export const SOURCES_JSON = process.env.PRESS_SOURCES_FILE || 'scripts/news/sources.json';
+
+// サイト固有の指定が無い場合に使う汎用の時刻セレクタ候補
+export const DEFAULT_DATE_SELECTORS = [
+  'time[datetime]', 'time',
+  'meta[itemprop="datePublished"]',
+  'meta[property="article:published_time"]',
+  '.articleTime', '.time', '.date', '.datetime', 'span.date',
+  'header time', 'article time'
+];
+
+export type SourceCategory = 'market' | 'company';
+
+export type ListPageConfig = {
+  url: string;
+  category?: SourceCategory;  // 一覧ページ（フィード）単位で既定カテゴリを上書き
+};
+
+export type SelectorConfig = {
+  link?: string;        // 一覧ページ上の記事リンク（既定: a[href]）
+  title?: string[];     // 記事ページのタイトル（未指定ならリンク文字列を使う）
+  date?: string[];      // 記事ページの公開日時
+  summary?: string[];   // 記事ページの要約
+};
+
+export type SourceConfig = {
+  id: string;
+  name: string;
+  base: string;
+  enabled?: boolean;
+  defaultCategory?: SourceCategory;
+  listPages?: ListPageConfig[];   // ブラウザで開く一覧ページ
+  feeds?: ListPageConfig[];       // RSS / Atom / RDF（ブラウザ不要。ローカルパスも可）
+  linkPatterns?: string[];  // 記事URLとみなす正規表現（未指定なら base 配下すべて）
+  selectors?: SelectorConfig;
+};
+
+/**
+ * 設定を検証・既定値補完した実行時の形
+ */
+export type SourceAdapter = {
+  id: string;
+  name: string;
+  base: string;
+  defaultCategory: SourceCategory;
+  listPages: Required<ListPageConfig>[];
+  feeds: Required<ListPageConfig>[];
+  linkSelector: string;
+  titleSelectors: string[];
+  dateSelectors: string[];
+  summarySelectors: string[];
+  matchesLink: (absUrl: string) => boolean;
+};
+
+/**
+ * レジストリを読み込み、有効なソースのアダプタを返す
+ * onlyIds を渡すと enabled に関わらずその id のみを対象にする
+ */
+export function loadSourceAdapters(file: string = SOURCES_JSON, onlyIds?: string[]): SourceAdapter[] {
+  if (!fs.existsSync(file)) throw new Error(`ソース設定が見つかりません: ${file}`);
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  const list: SourceConfig[] = Array.isArray(raw) ? raw : raw?.sources;
+  if (!Array.isArray(list)) throw new Error(`ソース設定の形式が不正です（sources 配列がありません）: ${file}`);
+
+  const seen = new Set<string>();
+  const adapters: SourceAdapter[] = [];
+  for (const cfg of list) {
+    const adapter = toAdapter(cfg);
+    if (seen.has(adapter.id)) throw new Error(`ソース id が重複しています: ${adapter.id}`);
+    seen.add(adapter.id);
+
+    if (onlyIds && onlyIds.length) {
+      if (onlyIds.includes(adapter.id)) adapters.push(adapter);
+    } else if (cfg.enabled !== false) {
+      adapters.push(adapter);
+    }
+  }
+  return adapters;
+}
+
+function toAdapter(cfg: SourceConfig): SourceAdapter {
+  const where = `ソース設定 ${cfg?.id || '(id なし)'}`;
+  if (!cfg || typeof cfg.id !== 'string' || !cfg.id) throw new Error(`${where}: id は必須です`);
+  if (typeof cfg.name !== 'string' || !cfg.name) throw new Error(`${where}: name は必須です`);
+  if (typeof cfg.base !== 'string' || !/^https?:\/\//.test(cfg.base)) throw new Error(`${where}: base が不正です`);
+  const hasPages = Array.isArray(cfg.listPages) && cfg.listPages.length > 0;
+  const hasFeeds = Array.isArray(cfg.feeds) && cfg.feeds.length > 0;
+  if (!hasPages && !hasFeeds) throw new Error(`${where}: listPages か feeds のいずれかが必要です`);
+
+  const defaultCategory: SourceCategory = cfg.defaultCategory || 'market';
+  if (!['market', 'company'].includes(defaultCategory)) throw new Error(`${where}: defaultCategory が不正です`);
+
+  const toPages = (list: ListPageConfig[] | undefined, key: string) => (list || []).map(p => {
+    const lp = typeof p === 'string' ? { url: p as string } : p;
+    if (!lp || typeof lp.url !== 'string') throw new Error(`${where}: ${key} の url が不正です`);
+    return { url: lp.url, category: lp.category || defaultCategory };
+  });
+  const listPages = toPages(cfg.listPages, 'listPages');
+  const feeds = toPages(cfg.feeds, 'feeds');
+
+  let patterns: RegExp[];
+  try {
+    patterns = (cfg.linkPatterns || []).map(s => new RegExp(s));
+  } catch (e) {
+    throw new Error(`${where}: linkPatterns の正規表現が不正です: ${(e as Error).message}`);
+  }
+
+  const sel = cfg.selectors || {};
+  return {
+    id: cfg.id,
+    name: cfg.name,
+    base: cfg.base,
+    defaultCategory,
+    listPages,
+    feeds,
+    linkSelector: sel.link || 'a[href]',
+    titleSelectors: sel.title || [],
+    dateSelectors: sel.date && sel.date.length ? sel.date : DEFAULT_DATE_SELECTORS,
+    summarySelectors: sel.summary || [],
+    matchesLink: (absUrl: string) => {
+      if (!absUrl.startsWith(cfg.base)) return false;
+      return patterns.length === 0 || patterns.some(re => re.test(absUrl));
+    }
+  };
+}
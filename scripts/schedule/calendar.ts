@@ -0,0 +1,73 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+/**
+ * 東証の営業日と立会時間（日本時間。実行マシンの TZ に依存しない）
+ *   休業日   土日と scripts/schedule/holidays.json（祝日・年末年始）
+ *   立会     前場 9:00〜11:30 / 後場 12:30〜15:30（2024年11月の取引時間延伸後）
+ */
+
+export const HOLIDAYS_JSON = process.env.JPX_HOLIDAYS_FILE || path.join('scripts', 'schedule', 'holidays.json');
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+export type MarketSession = 'closed' | 'pre' | 'morning' | 'lunch' | 'afternoon' | 'after';
+
+// [開始分, 終了分)（0:00 からの分）
+const SESSIONS: [MarketSession, number, number][] = [
+  ['pre', 0, 9 * 60],
+  ['morning', 9 * 60, 11 * 60 + 30],
+  ['lunch', 11 * 60 + 30, 12 * 60 + 30],
+  ['afternoon', 12 * 60 + 30, 15 * 60 + 30],
+  ['after', 15 * 60 + 30, 24 * 60],
+];
+
+export type MarketCalendar = {
+  isTradingDay: (t: Date) => boolean;
+  session: (t: Date) => MarketSession;
+  covers: (t: Date) => boolean;   // 休業日データにその年が含まれるか
+};
+
+export function loadHolidays(file: string = HOLIDAYS_JSON): string[] {
+  if (!fs.existsSync(file)) throw new Error(`休業日データが見つかりません: ${file}`);
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!raw || !Array.isArray(raw.days)) throw new Error(`休業日データの形式が不正です（{ days: ["YYYY-MM-DD", ...] } を想定）: ${file}`);
+  return raw.days;
+}
+
+export function createCalendar(holidays: string[] = loadHolidays()): MarketCalendar {
+  const closed = new Set(holidays);
+  const years = new Set(holidays.map(d => d.slice(0, 4)));
+  const isTradingDay = (t: Date) => {
+    const day = new Date(t.getTime() + JST_OFFSET_MS).getUTCDay();
+    return day !== 0 && day !== 6 && !closed.has(jstDateKey(t));
+  };
+  return {
+    isTradingDay,
+    session(t: Date): MarketSession {
+      if (!isTradingDay(t)) return 'closed';
+      const m = jstMinutes(t);
+      return SESSIONS.find(([, from, to]) => m >= from && m < to)![0];
+    },
+    covers: (t: Date) => years.has(jstDateKey(t).slice(0, 4)),
+  };
+}
+
+/**
+ * 日本時間の 0:00 からの経過分
+ */
+export function jstMinutes(t: Date): number {
+  const d = new Date(t.getTime() + JST_OFFSET_MS);
+  return d.getUTCHours() * 60 + d.getUTCMinutes();
+}
+
+export function jstDateKey(t: Date): string {
+  return new Date(t.getTime() + JST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * ログ用の日本時間表記（例: "2025-08-01 15:02"）
+ */
+export function formatJst(t: Date): string {
+  return new Date(t.getTime() + JST_OFFSET_MS).toISOString().slice(0, 16).replace('T', ' ');
+}
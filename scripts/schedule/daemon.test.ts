@@ -0,0 +1,58 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createCalendar } from './calendar';
+import { SCHEDULES, backoffDelay, nextRunAt } from './daemon';
+
+/**
+ * 常駐モードの実行時刻（SCHEDULES の時間帯・営業日）と失敗時の待ち時間
+ * holidays.json の更新に左右されないよう、休場日は 2026-01-12（月・成人の日）だけのカレンダーを使う
+ *   2026-01-10 土 / 2026-01-12 月（休場）/ 2026-01-13 火（営業日）
+ */
+
+const calendar = createCalendar(['2026-01-12']);
+const MINUTE_MS = 60 * 1000;
+
+// 日本時間の "YYYY-MM-DD HH:MM"
+const jst = (s: string) => new Date(`${s.replace(' ', 'T')}:00+09:00`);
+const next = (job: keyof typeof SCHEDULES, last: string | null, from: string) =>
+  nextRunAt(SCHEDULES[job], calendar, last ? jst(last) : null, jst(from));
+
+test('営業日: 時間帯の間隔で次の実行時刻を決める', () => {
+  assert.deepEqual(next('tdnet', '2026-01-13 10:00', '2026-01-13 10:01'), jst('2026-01-13 10:15'));
+  assert.deepEqual(next('tdnet', '2026-01-13 15:00', '2026-01-13 15:00'), jst('2026-01-13 15:02'));
+  // 間隔の短い時間帯（14:30〜）に入った時点で前回から十分経っていればすぐ実行する
+  assert.deepEqual(next('tdnet', '2026-01-13 14:20', '2026-01-13 14:25'), jst('2026-01-13 14:30'));
+  assert.deepEqual(next('x', '2026-01-13 10:00', '2026-01-13 10:01'), jst('2026-01-13 10:20'));
+  // 初回は時間帯に入っていればすぐ
+  assert.deepEqual(next('press', null, '2026-01-13 10:00'), jst('2026-01-13 10:00'));
+});
+
+test('休場日（祝日）は休業日の間隔になる', () => {
+  assert.deepEqual(next('tdnet', '2026-01-12 10:00', '2026-01-12 10:01'), jst('2026-01-12 13:00'));
+  assert.deepEqual(next('x', '2026-01-12 10:00', '2026-01-12 10:01'), jst('2026-01-12 10:40'));
+});
+
+test('土日は休業日の間隔になる', () => {
+  assert.deepEqual(next('tdnet', '2026-01-10 10:00', '2026-01-10 10:01'), jst('2026-01-10 13:00'));
+  assert.deepEqual(next('x', '2026-01-10 10:00', '2026-01-10 10:01'), jst('2026-01-10 10:40'));
+});
+
+test('実行しない時間帯（X の 23:00〜06:00）の境目', () => {
+  assert.deepEqual(next('x', '2026-01-13 22:30', '2026-01-13 22:59'), jst('2026-01-13 22:59'));
+  assert.deepEqual(next('x', '2026-01-13 22:41', '2026-01-13 22:45'), jst('2026-01-14 06:00'));
+  assert.deepEqual(next('x', null, '2026-01-13 23:00'), jst('2026-01-14 06:00'));
+  // 日付が変わっても 06:00 までは実行しない
+  assert.deepEqual(next('x', null, '2026-01-14 05:59'), jst('2026-01-14 06:00'));
+  // archive は 04:00〜05:00 の間に1回
+  assert.deepEqual(next('archive', '2026-01-13 04:00', '2026-01-13 04:01'), jst('2026-01-14 04:00'));
+});
+
+test('失敗時の待ち時間は 2 倍ずつ増え、上限 60 分に ±50% の揺らぎ', () => {
+  const mid = () => 0.5;
+  assert.equal(backoffDelay(1, mid), 2 * MINUTE_MS);
+  assert.equal(backoffDelay(2, mid), 4 * MINUTE_MS);
+  assert.equal(backoffDelay(6, mid), 60 * MINUTE_MS);
+  assert.equal(backoffDelay(50, mid), 60 * MINUTE_MS);
+  assert.equal(backoffDelay(50, () => 0), 30 * MINUTE_MS);
+  assert.ok(backoffDelay(50, () => 0.999999) < 90 * MINUTE_MS);
+});
@@ -0,0 +1,226 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { fetchPress } from '../news/fetch-press';
+import { fetchTdnet } from '../tdnet/fetch-tdnet';
+import { fetchX } from '../x/fetch-top';
+import { archiveNews } from '../data/archive';
+import { buildSite } from '../site/build';
+import { buildFeeds } from '../site/feeds';
+import { resolveSiteUrl } from '../site/urls';
+import { writeStatusPage } from '../health/status';
+import { MarketCalendar, createCalendar, formatJst, jstMinutes } from './calendar';
+
+/**
+ * 常駐モード（npm run news -- daemon）
+ * ソースごとの時間帯別の間隔（SCHEDULES）で取得し、取得のたびに静的ページとフィードを作り直す
+ *   tdnet    営業日 14:30〜16:30 は 2 分おき（15:00 / 15:30 の開示集中）、日中 15 分、夜間 60 分、休業日 3 時間
+ *   press    1 時間おき
+ *   x        23:00〜6:00 は取得しない。営業日 20 分、休業日 40 分
+ *   archive  毎日 4:00 台に1回
+ * 失敗したジョブは揺らぎ付きの指数バックオフ（2 分 → 最大 60 分）で再試行し、他のジョブは止めない
+ * 取得状況のページ（status/index.html）は成否にかかわらず毎回書き直す。抽出の異常は警告のみで常駐は続ける
+ * ジョブは1つずつ順に実行する（news.json のロックとブラウザの同時起動を避ける）
+ * SIGINT / SIGTERM で実行中のジョブの終了を待ってから止まる（2回目で即時終了）
+ */
+
+export type JobId = 'press' | 'tdnet' | 'x' | 'archive';
+export const JOB_IDS: JobId[] = ['press', 'tdnet', 'x', 'archive'];
+
+export type ScheduleWindow = {
+  from: string;                       // "HH:MM"（日本時間）
+  to: string;                         // "HH:MM"（含まない。"24:00" 可）
+  days?: 'trading' | 'closed';        // 営業日のみ / 休業日のみ（既定: 毎日）
+  minutes: number | null;             // 前回の開始からの間隔。null はこの時間帯は実行しない
+};
+
+// 上から順に最初に当てはまった時間帯を使う
+export const SCHEDULES: Record<JobId, ScheduleWindow[]> = {
+  tdnet: [
+    { days: 'trading', from: '14:30', to: '16:30', minutes: 2 },
+    { days: 'trading', from: '07:30', to: '19:00', minutes: 15 },
+    { days: 'trading', from: '00:00', to: '24:00', minutes: 60 },
+    { from: '00:00', to: '24:00', minutes: 180 },
+  ],
+  press: [
+    { from: '00:00', to: '24:00', minutes: 60 },
+  ],
+  x: [
+    { from: '23:00', to: '24:00', minutes: null },
+    { from: '00:00', to: '06:00', minutes: null },
+    { days: 'trading', from: '06:00', to: '23:00', minutes: 20 },
+    { from: '06:00', to: '23:00', minutes: 40 },
+  ],
+  archive: [
+    { from: '04:00', to: '05:00', minutes: 20 * 60 },
+    { from: '00:00', to: '24:00', minutes: null },
+  ],
+};
+
+const MINUTE_MS = 60 * 1000;
+const BACKOFF_BASE_MS = 2 * MINUTE_MS;
+const BACKOFF_MAX_MS = 60 * MINUTE_MS;
+// 次の実行時刻を探す範囲（これを超えて実行できる時間帯が無ければ設定の誤り）
+const SEARCH_LIMIT_MINUTES = 8 * 24 * 60;
+
+export type DaemonOptions = {
+  jobs?: JobId[];          // 既定: すべて
+  watchlists?: string[];
+  siteUrl?: string;
+  dryRun?: boolean;        // 取得はせず、直近の実行予定を表示する
+};
+
+type JobState = {
+  id: JobId;
+  nextAt: Date;
+  lastStartedAt: Date | null;
+  failures: number;
+};
+
+export async function runDaemon(opts: DaemonOptions = {}) {
+  const calendar = createCalendar();
+  const jobIds = opts.jobs ?? JOB_IDS;
+  for (const id of jobIds) {
+    if (!JOB_IDS.includes(id)) throw new Error(`daemon のジョブが不正です: ${id}（${JOB_IDS.join(' / ')}）`);
+  }
+  const now = new Date();
+  if (!calendar.covers(now)) console.warn(`[warn] 休業日データに ${formatJst(now).slice(0, 4)} 年が含まれていません（土日以外は営業日として扱います）`);
+
+  if (opts.dryRun) {
+    printPlan(jobIds, calendar, now);
+    return;
+  }
+
+  const siteUrl = resolveSiteUrl(opts.siteUrl);
+  const run: Record<JobId, () => Promise<unknown>> = {
+    press: () => fetchPress({ watchlists: opts.watchlists }),
+    tdnet: () => fetchTdnet({ watchlists: opts.watchlists }),
+    x: () => fetchX({ watchlists: opts.watchlists }),
+    archive: () => archiveNews(),
+  };
+
+  const stop = new AbortController();
+  const onSignal = (signal: string) => {
+    if (stop.signal.aborted) {
+      console.warn(`[daemon] ${signal}: 実行中のジョブを待たずに終了します。`);
+      process.exit(130);
+    }
+    console.log(`[daemon] ${signal}: 実行中のジョブが終わりしだい終了します（もう一度で即時終了）。`);
+    stop.abort();
+  };
+  const onSigint = () => onSignal('SIGINT');
+  const onSigterm = () => onSignal('SIGTERM');
+  process.on('SIGINT', onSigint);
+  process.on('SIGTERM', onSigterm);
+
+  const jobs: JobState[] = jobIds.map(id => ({ id, nextAt: nextRunAt(SCHEDULES[id], calendar, null, now), lastStartedAt: null, failures: 0 }));
+  console.log(`[daemon] 開始: ${jobs.map(j => `${j.id} ${formatJst(j.nextAt)}`).join(' / ')}（日本時間）`);
+
+  try {
+    while (!stop.signal.aborted) {
+      const job = jobs.reduce((a, b) => (b.nextAt < a.nextAt ? b : a));
+      const wait = job.nextAt.getTime() - Date.now();
+      if (wait > 0) {
+        try {
+          await sleep(wait, undefined, { signal: stop.signal });
+        } catch {
+          break; // 待機中のシグナル
+        }
+      }
+
+      const startedAt = new Date();
+      console.log(`[daemon] ${formatJst(startedAt)} ${job.id} を開始（${calendar.session(startedAt)}）`);
+      try {
+        await run[job.id]();
+        job.failures = 0;
+        job.nextAt = nextRunAt(SCHEDULES[job.id], calendar, startedAt, new Date());
+        rebuildSite(siteUrl);
+      } catch (e: any) {
+        job.failures++;
+        const delay = backoffDelay(job.failures);
+        // バックオフ後でも実行しない時間帯なら、その次に実行できる時刻まで延ばす
+        const scheduled = nextRunAt(SCHEDULES[job.id], calendar, startedAt, new Date());
+        const retry = nextRunAt(SCHEDULES[job.id], calendar, null, new Date(Date.now() + delay));
+        job.nextAt = retry > scheduled ? retry : scheduled;
+        console.warn(`[daemon] ${job.id} が失敗しました（連続 ${job.failures} 回）: ${e?.message || e}`);
+      }
+      if (job.id !== 'archive') refreshStatus();
+      job.lastStartedAt = startedAt;
+      console.log(`[daemon] ${job.id} の次回: ${formatJst(job.nextAt)}`);
+    }
+  } finally {
+    process.off('SIGINT', onSigint);
+    process.off('SIGTERM', onSigterm);
+  }
+  console.log('[daemon] 終了しました。');
+}
+
+/**
+ * lastStartedAt からの間隔を満たし、実行する時間帯に入る最初の時刻（分単位。from 以降）
+ * 間隔の短い時間帯に入った時点で前回から十分経っていればすぐに実行する（例: 14:30 の tdnet）
+ */
+export function nextRunAt(windows: ScheduleWindow[], calendar: MarketCalendar, lastStartedAt: Date | null, from: Date): Date {
+  const start = Math.ceil(from.getTime() / MINUTE_MS) * MINUTE_MS;
+  for (let i = 0; i < SEARCH_LIMIT_MINUTES; i++) {
+    const t = new Date(start + i * MINUTE_MS);
+    const minutes = intervalAt(windows, calendar, t);
+    if (minutes === null) continue;
+    if (!lastStartedAt || t.getTime() - lastStartedAt.getTime() >= minutes * MINUTE_MS) return t;
+  }
+  throw new Error(`${SEARCH_LIMIT_MINUTES / 60 / 24} 日以内に実行できる時間帯がありません（SCHEDULES を確認してください）`);
+}
+
+function intervalAt(windows: ScheduleWindow[], calendar: MarketCalendar, t: Date): number | null {
+  const m = jstMinutes(t);
+  const trading = calendar.isTradingDay(t);
+  const w = windows.find(w => {
+    if (w.days === 'trading' && !trading) return false;
+    if (w.days === 'closed' && trading) return false;
+    return m >= toMinutes(w.from) && m < toMinutes(w.to);
+  });
+  return w ? w.minutes : null;
+}
+
+/**
+ * 連続失敗回数に応じた待ち時間（2倍ずつ、上限あり）に ±50% の揺らぎを付ける
+ */
+export function backoffDelay(failures: number, random: () => number = Math.random): number {
+  const base = Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), BACKOFF_MAX_MS);
+  return Math.round(base * (0.5 + random()));
+}
+
+function rebuildSite(siteUrl: string) {
+  try {
+    buildSite({ siteUrl });
+    buildFeeds({ siteUrl });
+  } catch (e: any) {
+    console.warn(`[daemon] 静的ページ・フィードの生成に失敗しました: ${e?.message || e}`);
+  }
+}
+
+function refreshStatus() {
+  try {
+    writeStatusPage();
+  } catch (e: any) {
+    console.warn(`[daemon] 取得状況のページの生成に失敗しました: ${e?.message || e}`);
+  }
+}
+
+function printPlan(jobIds: JobId[], calendar: MarketCalendar, now: Date) {
+  console.log(`daemon(dry-run): ${formatJst(now)}（${calendar.session(now)}）からの実行予定（日本時間。すべて成功した場合）`);
+  for (const id of jobIds) {
+    const times: Date[] = [];
+    let last: Date | null = null;
+    let from = now;
+    for (let i = 0; i < 8; i++) {
+      const t = nextRunAt(SCHEDULES[id], calendar, last, from);
+      times.push(t);
+      last = t;
+      from = new Date(t.getTime() + MINUTE_MS);
+    }
+    console.log(`  ${id.padEnd(8)} ${times.map(t => formatJst(t).slice(5)).join(', ')}`);
+  }
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
@@ -0,0 +1,237 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { jstDateKey, listShardDays, shardPath } from '../data/archive';
+import { loadCompanyMaster } from '../entities/master';
+import { NEWS_JSON, readNewsFile } from '../lib/news-file';
+import { NewsItem } from '../lib/schema';
+import { atomicWriteFile } from '../lib/store';
+import { DEFAULT_DESCRIPTION, PageContext, SITE_NAME, escapeHtml, renderPage } from './render';
+import { feedDir, resolveSiteUrl, tickerPath } from './urls';
+
+/**
+ * 静的ページのビルド（JS 無しでも読め、検索エンジンに載るように）
+ * 出力はすべて SITE_DIR（既定 dist/。git 管理外）へ書き、そのまま公開・配信できる形にする
+ *   index.html                   直近のニュース（news.json）
+ *   category/<market|company|sns>/index.html
+ *   ticker/<コード>/index.html    news.json とアーカイブにある銘柄ごと
+ *   day/<YYYY-MM-DD>/index.html   公開日（JST）ごと
+ *   sitemap.xml
+ *   assets/ legal/               リポジトリから複製（news.json・アーカイブを含む）
+ * ページはリポジトリの index.html をテンプレートにして作り、app.js が読み込み後に同じ内容を描き直す（render.ts）
+ * テンプレート自身は書き換えない
+ * canonical / sitemap の絶対 URL には SITE_URL（または --site-url）を使う
+ * フィード（feeds.ts）は別コマンドで書き出し、各ページの <link rel="alternate"> から参照する
+ */
+
+export const SITE_DIR = process.env.SITE_DIR || 'dist';
+export const TEMPLATE_HTML = 'index.html';
+export const SITEMAP_XML = path.join(SITE_DIR, 'sitemap.xml');
+
+// 毎回作り直すディレクトリ（消えた銘柄・日付のページを残さない）
+const GENERATED_DIRS = ['category', 'ticker', 'day'];
+// ページから参照する静的ファイル（毎回複製し直す）
+const STATIC_DIRS = ['assets', 'legal'];
+
+// 1ページに載せる最大件数（日付ページは全件）
+const LIST_LIMIT = 100;
+
+export const CATEGORY_PAGES = [
+  { filter: 'market', title: '市場・経済ニュース', description: '株価指数・為替・金利・経済指標など、市場全体に関わる金融ニュース。' },
+  { filter: 'company', title: '企業・決算ニュース', description: '決算・業績予想の修正・適時開示など、個別企業の金融ニュース。' },
+  { filter: 'sns', title: 'SNS速報', description: '取引所・報道機関などの公式アカウントによる速報投稿。' },
+];
+
+export type BuildOptions = {
+  siteUrl?: string;   // 例: https://example.github.io/fin-news-site/（既定: 環境変数 SITE_URL）
+  dryRun?: boolean;
+};
+
+export function buildSite(opts: BuildOptions = {}) {
+  const siteUrl = resolveSiteUrl(opts.siteUrl);
+  const template = fs.readFileSync(TEMPLATE_HTML, 'utf-8');
+  const { recent, all } = loadSiteItems();
+
+  const pages: PageContext[] = [
+    {
+      path: '',
+      title: SITE_NAME,
+      heading: '',
+      description: DEFAULT_DESCRIPTION,
+      filter: 'all',
+      items: withRelated(byImportance(recent)).slice(0, LIST_LIMIT),
+    },
+    ...CATEGORY_PAGES.map(c => ({
+      path: `category/${c.filter}/`,
+      title: c.title,
+      heading: c.title,
+      description: c.description,
+      filter: c.filter,
+      feed: feedDir({ category: c.filter }),
+      items: withRelated(byImportance(recent.filter(x => x.category === c.filter))).slice(0, LIST_LIMIT),
+    })),
+    ...tickerPages(all),
+    ...dayPages(all),
+  ];
+
+  if (opts.dryRun) {
+    const count = (prefix: string) => pages.filter(p => p.path.startsWith(prefix)).length;
+    console.log(`build(dry-run): ${pages.length} ページ（カテゴリ ${count('category/')} / 銘柄 ${count('ticker/')} / 日付 ${count('day/')}）を生成予定です。`);
+    return;
+  }
+
+  const outDir = siteDir();
+  for (const dir of [...GENERATED_DIRS, ...STATIC_DIRS]) fs.rmSync(path.join(outDir, dir), { recursive: true, force: true });
+  for (const dir of STATIC_DIRS) fs.cpSync(dir, path.join(outDir, dir), { recursive: true });
+  for (const page of pages) {
+    const file = path.join(outDir, page.path, 'index.html');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    atomicWriteFile(file, renderPage(template, page, siteUrl));
+  }
+  atomicWriteFile(SITEMAP_XML, renderSitemap(pages, siteUrl));
+  console.log(`build: ${pages.length} ページと sitemap.xml を ${outDir}/ に書き出しました（${siteUrl}）。`);
+}
+
+/**
+ * 出力先（SITE_DIR）。中身を消して作り直すため、リポジトリのルートやその外は受け付けない
+ */
+export function siteDir(): string {
+  const rel = path.relative(process.cwd(), path.resolve(SITE_DIR));
+  if (!rel || rel.startsWith('..') || path.isAbsolute(rel) || STATIC_DIRS.includes(rel.split(path.sep)[0])) {
+    throw new Error(`SITE_DIR にはリポジトリ内の専用ディレクトリを指定してください（例: dist）: ${SITE_DIR}`);
+  }
+  return SITE_DIR;
+}
+
+/**
+ * 掲載対象の項目（recent は news.json のみ、all はアーカイブを含む）
+ * フロントの loadData と同じく verified でないものは載せない
+ */
+export function loadSiteItems(): { recent: NewsItem[]; all: NewsItem[] } {
+  const recent = readNewsFile(NEWS_JSON).filter(x => x.verified);
+  const archived = listShardDays().flatMap(day => readNewsFile(shardPath(day))).filter(x => x.verified);
+  return { recent, all: dedupeById(recent.concat(archived)) };
+}
+
+function tickerPages(items: NewsItem[]): PageContext[] {
+  const names = companyNames();
+  return [...groupByTicker(items)].map(([ticker, list]) => {
+    const label = tickerLabel(ticker, list, names);
+    return {
+      path: tickerPath(ticker),
+      title: `${label}のニュース`,
+      heading: `${label}のニュース`,
+      description: `${label}に関する決算・適時開示・報道の一覧。`,
+      ticker,
+      feed: feedDir({ ticker }),
+      items: withRelated(byDate(list)).slice(0, LIST_LIMIT),
+    };
+  });
+}
+
+function dayPages(items: NewsItem[]): PageContext[] {
+  const byDay = new Map<string, NewsItem[]>();
+  for (const x of items) {
+    const t = x.publishedAt ? new Date(x.publishedAt).getTime() : NaN;
+    if (Number.isNaN(t)) continue;
+    const day = jstDateKey(t);
+    if (!byDay.has(day)) byDay.set(day, []);
+    byDay.get(day)!.push(x);
+  }
+  return [...byDay].sort(([a], [b]) => b.localeCompare(a)).map(([day, list]) => {
+    const [y, m, d] = day.split('-').map(Number);
+    const label = `${y}年${m}月${d}日`;
+    return {
+      path: `day/${day}/`,
+      title: `${label}のニュース`,
+      heading: `${label}のニュース`,
+      description: `${label}（日本時間）に公開された金融ニュースの一覧。`,
+      day,
+      items: withRelated(byImportance(list)),
+    };
+  });
+}
+
+/**
+ * 銘柄ごとの項目（銘柄コード順）。複数銘柄に当たる項目はそれぞれに入る
+ */
+export function groupByTicker(items: NewsItem[]): Map<string, NewsItem[]> {
+  const byTicker = new Map<string, NewsItem[]>();
+  for (const x of items) {
+    for (const t of x.tickers || []) {
+      if (!byTicker.has(t)) byTicker.set(t, []);
+      byTicker.get(t)!.push(x);
+    }
+  }
+  return new Map([...byTicker].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * 銘柄の表示名（例: "トヨタ自動車（7203）"）。マスタに無ければ適時開示の会社名で補う
+ */
+export function tickerLabel(ticker: string, items: NewsItem[], names: Map<string, string>): string {
+  const code = ticker.replace(/\.T$/, '');
+  const name = names.get(code) || items.find(x => x.disclosure?.company)?.disclosure?.company || '';
+  return name ? `${name}（${code}）` : code;
+}
+
+export function companyNames(): Map<string, string> {
+  try {
+    return new Map(loadCompanyMaster().companies.map(c => [c.code, c.name]));
+  } catch (e: any) {
+    console.warn(`[warn] 企業マスタを読めないため銘柄ページの社名を省きます: ${e?.message || e}`);
+    return new Map();
+  }
+}
+
+/**
+ * sitemap.xml（lastmod はページ内で最も新しい公開日時）
+ */
+function renderSitemap(pages: PageContext[], siteUrl: string): string {
+  const urls = pages.map(p => {
+    const newest = Math.max(0, ...p.items.map(time));
+    const loc = new URL(p.path, siteUrl).toString();
+    return `  <url>\n    <loc>${escapeHtml(loc)}</loc>${newest ? `\n    <lastmod>${new Date(newest).toISOString()}</lastmod>` : ''}\n  </url>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join('\n')}\n</urlset>\n`;
+}
+
+// app.js の既定（重要度順、同じ重要度は新しい順）と同じ並び
+function byImportance(items: NewsItem[]): NewsItem[] {
+  return items.slice().sort((a, b) => ((b.importance || 0) - (a.importance || 0)) || time(b) - time(a));
+}
+
+export function byDate(items: NewsItem[]): NewsItem[] {
+  return items.slice().sort((a, b) => time(b) - time(a));
+}
+
+/**
+ * clusterId が同じ項目を先に来た1件にまとめる（app.js の groupClusters と同じ）
+ */
+function withRelated(items: NewsItem[]): (NewsItem & { related?: NewsItem[] })[] {
+  const leads = new Map<string, NewsItem & { related: NewsItem[] }>();
+  const out: (NewsItem & { related?: NewsItem[] })[] = [];
+  for (const x of items) {
+    if (!x.clusterId) {
+      out.push(x);
+      continue;
+    }
+    const lead = leads.get(x.clusterId);
+    if (lead) {
+      lead.related.push(x);
+      continue;
+    }
+    const copy = { ...x, related: [] as NewsItem[] };
+    leads.set(x.clusterId, copy);
+    out.push(copy);
+  }
+  return out;
+}
+
+function dedupeById(items: NewsItem[]): NewsItem[] {
+  const seen = new Set<string>();
+  return items.filter(x => !seen.has(x.id) && !!seen.add(x.id));
+}
+
+function time(x: NewsItem): number {
+  return x.publishedAt ? new Date(x.publishedAt).getTime() || 0 : 0;
+}
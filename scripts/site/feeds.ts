@@ -0,0 +1,192 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { NewsItem } from '../lib/schema';
+import { atomicWriteFile } from '../lib/store';
+import { CATEGORY_PAGES, byDate, companyNames, groupByTicker, loadSiteItems, siteDir, tickerLabel } from './build';
+import { DEFAULT_DESCRIPTION, SITE_NAME, escapeHtml } from './render';
+import { feedDir, resolveSiteUrl, tickerPath } from './urls';
+
+/**
+ * 購読用フィード（RSS 2.0 / Atom / JSON Feed 1.1）。静的ページと同じ SITE_DIR（既定 dist/）へ書き出す
+ *   feed.xml / atom.xml / feed.json                 全体
+ *   feeds/category/<market|company|sns>/...         カテゴリ別
+ *   feeds/ticker/<コード>/...                        銘柄別
+ * 掲載するのは静的ページと同じ verified の項目のみ（build.ts の loadSiteItems）
+ * 媒体名は RSS の dc:creator / Atom と JSON Feed の author に、カテゴリと銘柄は category / tags に入れる
+ */
+
+// 毎回作り直すディレクトリ（消えた銘柄のフィードを残さない）
+const GENERATED_DIR = 'feeds';
+
+// 1フィードあたりの件数（新しい順）
+const FEED_LIMIT = 50;
+
+const CATEGORY_LABELS: Record<string, string> = {
+  market: '市場ニュース',
+  company: '企業ニュース',
+  sns: 'SNS投稿',
+};
+
+export type FeedOptions = {
+  siteUrl?: string;   // 既定: 環境変数 SITE_URL（build と同じ）
+  dryRun?: boolean;
+};
+
+type Feed = {
+  dir: string;         // urls.ts の feedDir
+  page: string;        // 対応する静的ページ
+  title: string;
+  description: string;
+  items: NewsItem[];
+};
+
+export function buildFeeds(opts: FeedOptions = {}) {
+  const siteUrl = resolveSiteUrl(opts.siteUrl);
+  const { all } = loadSiteItems();
+  const names = companyNames();
+
+  const feeds: Feed[] = [
+    { dir: feedDir(), page: '', title: SITE_NAME, description: DEFAULT_DESCRIPTION, items: all },
+    ...CATEGORY_PAGES.map(c => ({
+      dir: feedDir({ category: c.filter }),
+      page: `category/${c.filter}/`,
+      title: `${c.title} | ${SITE_NAME}`,
+      description: c.description,
+      items: all.filter(x => x.category === c.filter),
+    })),
+    ...[...groupByTicker(all)].map(([ticker, list]) => {
+      const label = tickerLabel(ticker, list, names);
+      return {
+        dir: feedDir({ ticker }),
+        page: tickerPath(ticker),
+        title: `${label}のニュース | ${SITE_NAME}`,
+        description: `${label}に関する決算・適時開示・報道の一覧。`,
+        items: list,
+      };
+    }),
+  ].map(f => ({ ...f, items: byDate(f.items).slice(0, FEED_LIMIT) }));
+
+  if (opts.dryRun) {
+    console.log(`feeds(dry-run): ${feeds.length} 種類（カテゴリ ${CATEGORY_PAGES.length} / 銘柄 ${feeds.length - CATEGORY_PAGES.length - 1}）× 3 形式を生成予定です。`);
+    return;
+  }
+
+  const outDir = siteDir();
+  fs.rmSync(path.join(outDir, GENERATED_DIR), { recursive: true, force: true });
+  for (const feed of feeds) {
+    const dir = path.join(outDir, feed.dir);
+    fs.mkdirSync(dir, { recursive: true });
+    atomicWriteFile(path.join(dir, 'feed.xml'), renderRss(feed, siteUrl));
+    atomicWriteFile(path.join(dir, 'atom.xml'), renderAtom(feed, siteUrl));
+    atomicWriteFile(path.join(dir, 'feed.json'), renderJsonFeed(feed, siteUrl));
+  }
+  console.log(`feeds: ${feeds.length} 種類のフィード（RSS / Atom / JSON Feed）を ${outDir}/ に書き出しました（${siteUrl}）。`);
+}
+
+export function renderRss(feed: Feed, siteUrl: string): string {
+  const self = new URL(`${feed.dir}feed.xml`, siteUrl).toString();
+  const items = feed.items.map(x => {
+    const lines = [
+      `<title>${escapeHtml(x.title)}</title>`,
+      `<link>${escapeHtml(x.url)}</link>`,
+      `<guid isPermaLink="false">${escapeHtml(x.id)}</guid>`,
+      x.publishedAt ? `<pubDate>${new Date(x.publishedAt).toUTCString()}</pubDate>` : '',
+      x.summary ? `<description>${escapeHtml(x.summary)}</description>` : '',
+      `<dc:creator>${escapeHtml(attribution(x))}</dc:creator>`,
+      ...categoriesOf(x).map(c => `<category${c.domain ? ` domain="${c.domain}"` : ''}>${escapeHtml(c.term)}</category>`),
+    ].filter(Boolean);
+    return `    <item>\n      ${lines.join('\n      ')}\n    </item>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeHtml(feed.title)}</title>
+    <link>${escapeHtml(new URL(feed.page, siteUrl).toString())}</link>
+    <description>${escapeHtml(feed.description)}</description>
+    <language>ja</language>
+    <lastBuildDate>${new Date(updatedAt(feed)).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeHtml(self)}" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtom(feed: Feed, siteUrl: string): string {
+  const self = new URL(`${feed.dir}atom.xml`, siteUrl).toString();
+  const entries = feed.items.map(x => {
+    const lines = [
+      `<id>${escapeHtml(entryId(x, siteUrl))}</id>`,
+      `<title>${escapeHtml(x.title)}</title>`,
+      `<link rel="alternate" href="${escapeHtml(x.url)}" />`,
+      // Atom では updated が必須。公開日時の無い項目はフィードの更新日時で代用する
+      `<updated>${new Date(x.publishedAt || updatedAt(feed)).toISOString()}</updated>`,
+      x.publishedAt ? `<published>${new Date(x.publishedAt).toISOString()}</published>` : '',
+      `<author><name>${escapeHtml(attribution(x))}</name></author>`,
+      x.summary ? `<summary>${escapeHtml(x.summary)}</summary>` : '',
+      ...categoriesOf(x).map(c => `<category term="${escapeHtml(c.term)}"${c.domain ? ` scheme="${c.domain}"` : ''} />`),
+    ].filter(Boolean);
+    return `  <entry>\n    ${lines.join('\n    ')}\n  </entry>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="ja">
+  <id>${escapeHtml(self)}</id>
+  <title>${escapeHtml(feed.title)}</title>
+  <subtitle>${escapeHtml(feed.description)}</subtitle>
+  <link rel="self" href="${escapeHtml(self)}" />
+  <link rel="alternate" href="${escapeHtml(new URL(feed.page, siteUrl).toString())}" />
+  <updated>${new Date(updatedAt(feed)).toISOString()}</updated>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+export function renderJsonFeed(feed: Feed, siteUrl: string): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: new URL(feed.page, siteUrl).toString(),
+    feed_url: new URL(`${feed.dir}feed.json`, siteUrl).toString(),
+    description: feed.description,
+    language: 'ja',
+    items: feed.items.map(x => ({
+      id: entryId(x, siteUrl),
+      url: x.url,
+      title: x.title,
+      content_text: x.summary || x.title,
+      ...(x.summary ? { summary: x.summary } : {}),
+      ...(/^https?:\/\//i.test(x.thumbnail) ? { image: x.thumbnail } : {}),
+      ...(x.publishedAt ? { date_published: new Date(x.publishedAt).toISOString() } : {}),
+      authors: [{ name: attribution(x) }],
+      tags: categoriesOf(x).map(c => c.term),
+      // 独自拡張（JSON Feed の仕様どおり _ 始まり）
+      _fin_news: { source: x.source, category: x.category, tickers: x.tickers || [], ...(x.importance ? { importance: x.importance } : {}) },
+    })),
+  }, null, 2);
+}
+
+/**
+ * 出典の表記（媒体名。記者名があれば併記）
+ */
+function attribution(x: NewsItem): string {
+  const source = x.source || new URL(x.url).hostname;
+  return x.author ? `${source}（${x.author}）` : source;
+}
+
+// カテゴリと銘柄（domain / scheme はリーダー側で見分けるための目印）
+function categoriesOf(x: NewsItem): { term: string; domain?: string }[] {
+  return [
+    { term: CATEGORY_LABELS[x.category] || x.category },
+    ...(x.tickers || []).map(t => ({ term: t, domain: 'ticker' })),
+  ];
+}
+
+// 項目の id は URL 由来のハッシュ（lib/ids.ts）なので、サイト URL と合わせて一意な IRI にする
+function entryId(x: NewsItem, siteUrl: string): string {
+  return `${siteUrl}#item-${x.id}`;
+}
+
+function updatedAt(feed: Feed): number {
+  const newest = Math.max(0, ...feed.items.map(x => (x.publishedAt ? new Date(x.publishedAt).getTime() || 0 : 0)));
+  return newest || Date.now();
+}
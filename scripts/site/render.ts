@@ -0,0 +1,176 @@
+import { NewsItem } from '../lib/schema';
+import { tickerPath } from './urls';
+
+/**
+ * 静的ページの HTML 生成（scripts/site/build.ts から使う）
+ * index.html をテンプレートとし、次の印で囲まれた範囲だけを差し替える（結果は SITE_DIR へ書き、テンプレートは変えない）
+ *   <!-- prerender:head:start --> ... <!-- prerender:head:end -->        canonical / OGP / base
+ *   <!-- prerender:heading:start --> ... <!-- prerender:heading:end -->  ページ見出し
+ *   <!-- prerender:cards:start --> ... <!-- prerender:cards:end -->      カード一覧（app.js が読み込み後に描き直す）
+ * カードの構造・クラス名は app.js の renderCard と揃える（JS の描画に切り替わっても崩れないように）
+ */
+
+export const SITE_NAME = '金融ニュースナビ';
+export const DEFAULT_DESCRIPTION = '信頼できる金融ニュースを厳選し、カテゴリ別に素早く閲覧できるサイト。市場ニュース・企業ニュース・SNS投稿を横断表示。';
+
+export type PageContext = {
+  path: string;          // サイトルートからの相対パス（例: "category/market/"。トップは ""）
+  title: string;         // <title> と og:title（サイト名は付けない）
+  heading: string;       // ページ見出し（トップは空）
+  description: string;
+  filter?: string;       // nav のどのピルを選択状態にするか（all / market / company / sns）
+  ticker?: string;       // 銘柄ページ: "7203.T"
+  day?: string;          // 日付ページ: "2025-08-01"（JST）
+  feed?: string;         // 対応するフィードの置き場所（urls.ts の feedDir。無ければ全体のフィード）
+  items: NewsItem[];     // 表示順に並べたもの
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  market: '市場ニュース',
+  company: '企業ニュース',
+  sns: 'SNS投稿',
+};
+
+// app.js の FACTOR_LABELS と同じ並び・表記
+const FACTOR_LABELS: Record<string, string> = {
+  source: '媒体の信頼度',
+  disclosure: '開示・記事の種別',
+  watchlist: 'ウォッチリスト',
+  cluster: '複数媒体で報道',
+  freshness: '鮮度',
+  severity: '緊急度の高い語',
+};
+
+const DATE_FORMAT = new Intl.DateTimeFormat('ja-JP', {
+  timeZone: 'Asia/Tokyo', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+});
+
+export function renderPage(template: string, page: PageContext, siteUrl: string): string {
+  const fullTitle = page.path ? `${page.title} | ${SITE_NAME}` : SITE_NAME;
+  const canonical = new URL(page.path, siteUrl).toString();
+  // 下の階層のページでも assets/ や legal/ への相対パスをトップ基準で解決させる
+  const depth = page.path.split('/').filter(Boolean).length;
+
+  const head = [
+    depth ? `<base href="${'../'.repeat(depth)}" />` : '',
+    `<link rel="canonical" href="${escapeHtml(canonical)}" />`,
+    `<meta property="og:url" content="${escapeHtml(canonical)}" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    `<meta name="twitter:card" content="summary" />`,
+    `<link rel="alternate" type="application/rss+xml" title="${escapeHtml(fullTitle)}" href="${page.feed || ''}feed.xml" />`,
+    `<link rel="alternate" type="application/atom+xml" title="${escapeHtml(fullTitle)}" href="${page.feed || ''}atom.xml" />`,
+    `<link rel="alternate" type="application/feed+json" title="${escapeHtml(fullTitle)}" href="${page.feed || ''}feed.json" />`,
+  ].filter(Boolean).join('\n  ');
+
+  let html = template;
+  html = replaceTag(html, /<title>[\s\S]*?<\/title>/, `<title>${escapeHtml(fullTitle)}</title>`);
+  html = replaceTag(html, /<meta name="description" content="[^"]*" \/>/, `<meta name="description" content="${escapeHtml(page.description)}" />`);
+  html = replaceTag(html, /<meta property="og:title" content="[^"]*" \/>/, `<meta property="og:title" content="${escapeHtml(fullTitle)}" />`);
+  html = replaceTag(html, /<meta property="og:description" content="[^"]*" \/>/, `<meta property="og:description" content="${escapeHtml(page.description)}" />`);
+  html = fillRegion(html, 'head', `\n  ${head}\n  `);
+  html = fillRegion(html, 'heading', page.heading ? `\n    <h1 class="page-heading">${escapeHtml(page.heading)}</h1>\n    ` : '');
+  html = fillRegion(html, 'cards', `\n${page.items.map(renderCard).join('\n')}\n      `);
+  html = html.replace(/<body[^>]*>/, `<body${bodyAttrs(page)}>`);
+  return markActiveNav(html, page.filter);
+}
+
+/**
+ * app.js がページの種類を知るための属性（data-filter / data-ticker / data-day）
+ */
+function bodyAttrs(page: PageContext): string {
+  const attrs: string[] = [];
+  if (page.filter && page.filter !== 'all') attrs.push(`data-filter="${escapeHtml(page.filter)}"`);
+  if (page.ticker) attrs.push(`data-ticker="${escapeHtml(page.ticker)}"`);
+  if (page.day) attrs.push(`data-day="${escapeHtml(page.day)}"`);
+  return attrs.length ? ' ' + attrs.join(' ') : '';
+}
+
+function markActiveNav(html: string, filter?: string): string {
+  const active = filter || '';
+  return html.replace(/<a href="([^"]*)" data-filter="(\w+)" class="nav-link(?: active)?"/g,
+    (_, href, f) => `<a href="${href}" data-filter="${f}" class="nav-link${f === active ? ' active' : ''}"`);
+}
+
+/**
+ * 1件分のカード（related は同じ clusterId のほかの報道）
+ */
+export function renderCard(item: NewsItem & { related?: NewsItem[] }): string {
+  const catLabel = CATEGORY_LABELS[item.category] || CATEGORY_LABELS.market;
+  const why = describeFactors(item);
+
+  const badges = [badge(catLabel)];
+  if (item.type) badges.push(badge(item.type));
+  if (item.importance) {
+    const level = item.importance >= 4 ? 'impact-high' : item.importance >= 2 ? 'impact-mid' : 'impact-low';
+    badges.push(badge(`重要度:${item.importance}`, level, why));
+    badges.push(badge('★'.repeat(item.importance) + '☆'.repeat(Math.max(0, 5 - item.importance)), 'stars', why));
+  }
+  badges.push(badge(item.category === 'company' ? '企業固有' : '市場/マクロ'));
+  if (item.verified) badges.push(badge('検証済み'));
+  item.tags.slice(0, 3).forEach(t => badges.push(badge(t)));
+
+  const body: string[] = [`<div class="badges">${badges.join('')}</div>`];
+  if (item.summary) {
+    const note = item.summarizedBy
+      ? `<small class="summary-note" title="${escapeHtml(`要約は ${item.summarizedBy} による自動生成です`)}">（自動要約）</small>`
+      : '';
+    body.push(`<p class="card-summary">${escapeHtml(item.summary)}${note}</p>`);
+  }
+  if (item.tickers?.length) {
+    const links = item.tickers.slice(0, 3).map(t => `<a href="${tickerPath(t)}">${escapeHtml(t)}</a>`);
+    body.push(`<div class="card-meta">Ticker: ${links.join(', ')}</div>`);
+  }
+  body.push(`<h3 class="card-title">${escapeHtml(item.title)}</h3>`);
+
+  const meta: string[] = [];
+  if (item.source) meta.push(`<span>${escapeHtml(item.section ? `${item.source}・${item.section}` : item.source)}</span>`);
+  if (item.post?.repostedBy) meta.push(`<span>${escapeHtml(item.post.repostedBy)} がリポスト</span>`);
+  if (item.author) meta.push(`<span>${escapeHtml(item.author)}</span>`);
+  if (item.publishedAt) meta.push(`<time datetime="${escapeHtml(item.publishedAt)}">${escapeHtml(DATE_FORMAT.format(new Date(item.publishedAt)))}</time>`);
+  body.push(`<div class="card-meta">${meta.join('')}</div>`);
+
+  if (item.related?.length) {
+    const links = item.related.map(r => `<a href="${escapeHtml(r.url)}" target="_blank" rel="noopener noreferrer" title="${escapeHtml(r.title)}">${escapeHtml(r.source || r.title)}</a>`);
+    body.push(`<div class="card-meta also-reported"><span>ほかの報道 ${item.related.length}件:</span>${links.join('')}</div>`);
+  }
+  if (why) {
+    body.push(`<details class="card-meta importance-why"><summary>なぜ★${item.importance}？</summary><span>${escapeHtml(why)}</span></details>`);
+  }
+
+  const thumb = /^https?:\/\//i.test(item.thumbnail)
+    ? `<img class="card-thumb" src="${escapeHtml(item.thumbnail)}" alt="" loading="lazy" referrerpolicy="no-referrer" />`
+    : '';
+  return `<article class="card" aria-label="${escapeHtml(`${catLabel}: ${item.title}`)}">${thumb}`
+    + `<div class="card-body">${body.join('')}</div>`
+    + `<div class="card-actions"><a href="${escapeHtml(item.url)}" target="_blank" rel="noopener noreferrer" class="button">記事を開く</a><span class="extmark">外部サイト</span></div>`
+    + `</article>`;
+}
+
+function describeFactors(item: NewsItem): string {
+  const f = item.factors as Record<string, number> | undefined;
+  if (!f) return '';
+  return Object.keys(FACTOR_LABELS)
+    .filter(k => typeof f[k] === 'number' && f[k] > 0)
+    .map(k => `${FACTOR_LABELS[k]} +${f[k]}`)
+    .join(' / ');
+}
+
+function badge(text: string, extra = '', title = ''): string {
+  const cls = extra ? `badge ${extra}` : 'badge';
+  return `<span class="${cls}"${title ? ` title="${escapeHtml(title)}"` : ''}>${escapeHtml(text)}</span>`;
+}
+
+function fillRegion(html: string, name: string, content: string): string {
+  const re = new RegExp(`(<!-- prerender:${name}:start -->)[\\s\\S]*?(<!-- prerender:${name}:end -->)`);
+  if (!re.test(html)) throw new Error(`テンプレートに prerender:${name} の印がありません`);
+  return html.replace(re, (_, start, end) => `${start}${content}${end}`);
+}
+
+function replaceTag(html: string, re: RegExp, tag: string): string {
+  if (!re.test(html)) throw new Error(`テンプレートに ${re.source} がありません`);
+  return html.replace(re, () => tag);
+}
+
+export function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
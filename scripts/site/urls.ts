@@ -0,0 +1,42 @@
+/**
+ * 静的ページ・フィードのパスとサイトの基準 URL（build.ts / feeds.ts で共通）
+ * パスはすべてサイトルートからの相対（先頭の / なし）
+ */
+
+const LOCAL_SITE_URL = 'http://127.0.0.1:8000/';
+
+/**
+ * canonical・フィードの絶対 URL の基準（--site-url > 環境変数 SITE_URL > ローカル）
+ */
+export function resolveSiteUrl(siteUrl?: string): string {
+  let url = siteUrl || process.env.SITE_URL || '';
+  if (!url) {
+    console.warn(`[warn] SITE_URL が未設定のため ${LOCAL_SITE_URL} を使います（canonical / sitemap / フィードがローカルの URL になります）`);
+    url = LOCAL_SITE_URL;
+  }
+  if (!/^https?:\/\//i.test(url)) throw new Error(`SITE_URL が不正です: ${url}`);
+  return url.endsWith('/') ? url : url + '/';
+}
+
+/**
+ * 銘柄ページのパス（"7203.T" → "ticker/7203/"）
+ */
+export function tickerPath(ticker: string): string {
+  return `ticker/${tickerCode(ticker)}/`;
+}
+
+/**
+ * フィードの置き場所（全体はルート直下、カテゴリ・銘柄別は feeds/ の下）
+ *   ''                     feed.xml / atom.xml / feed.json
+ *   'feeds/category/market/'
+ *   'feeds/ticker/7203/'
+ */
+export function feedDir(scope: { category?: string; ticker?: string } = {}): string {
+  if (scope.category) return `feeds/category/${scope.category}/`;
+  if (scope.ticker) return `feeds/ticker/${tickerCode(scope.ticker)}/`;
+  return '';
+}
+
+function tickerCode(ticker: string): string {
+  return encodeURIComponent(ticker.replace(/\.T$/, ''));
+}
@@ -0,0 +1,148 @@
+import { Page, Response } from 'playwright';
+import { parseJstDate } from '../lib/dates';
+import { SourceStats } from '../health/report';
+
+/**
+ * TDnet（適時開示情報閲覧サービス）の日付別一覧ページの巡回
+ *   https://www.release.tdnet.info/inbs/I_list_<ページ番号3桁>_<YYYYMMDD>.html
+ * 1ページ最大100件。その日の開示を全ページ読み、銘柄での絞り込みは呼び出し側で行う
+ * TDnet で閲覧できるのは直近 31 日分のみ
+ */
+
+const LIST_BASE = 'https://www.release.tdnet.info/inbs/';
+// 1日の開示は多くても数千件（= 数十ページ）。ページ送りの暴走止め
+const MAX_PAGES = 60;
+
+export type TdnetDisclosure = {
+  disclosedAt: string | null; // ISO8601（一覧の日付 + 時刻を JST として解釈）
+  code: string;               // 一覧上のコード（5桁。末尾はチェック用の 0）
+  ticker: string;             // 例: "7203.T" / "130A.T"
+  company: string;
+  title: string;
+  pdfUrl: string;
+  xbrlUrl: string | null;
+  exchange: string;           // 上場取引所（例: "東", "東名"）
+};
+
+// 一覧の1行（DOM から取り出したままの文字列）
+type RawRow = {
+  time: string;
+  code: string;
+  company: string;
+  title: string;
+  pdfHref: string;
+  xbrlHref: string;
+  exchange: string;
+};
+
+export function listPageUrl(date: string, pageNo: number): string {
+  return `${LIST_BASE}I_list_${String(pageNo).padStart(3, '0')}_${date.replace(/-/g, '')}.html`;
+}
+
+/**
+ * date（YYYY-MM-DD, JST）の一覧を全ページ読み、開示を新しい順で返す
+ * stats があれば開いたページ数・行数・取り出せた開示の数を足し込む（404 のページは数えない）
+ * 404 以外で開けなかったページは stats.errors に残してその日を打ち切る（stats が無ければ例外）
+ */
+export async function crawlDailyList(page: Page, date: string, stats?: SourceStats): Promise<TdnetDisclosure[]> {
+  const out: TdnetDisclosure[] = [];
+
+  for (let pageNo = 1; pageNo <= MAX_PAGES; pageNo++) {
+    const url = listPageUrl(date, pageNo);
+    let res: Response | null;
+    try {
+      res = await page.goto(url, { waitUntil: 'domcontentloaded' });
+    } catch (e: any) {
+      // 通信エラー・タイムアウトは「開示が無い」と区別して記録し、その日の巡回をやめる
+      failed(stats, url, String(e?.message || e).split('\n')[0]);
+      break;
+    }
+    // 開示が無い日・ページ範囲外は 404 になる（一覧の終わり）
+    if (res?.status() === 404) break;
+    if (!res || res.status() >= 400) {
+      failed(stats, url, res ? `HTTP ${res.status()}` : '応答がありません');
+      break;
+    }
+
+    const rows = await readRows(page);
+    const before = out.length;
+    for (const r of rows) {
+      const d = toDisclosure(r, date, url);
+      if (d) out.push(d);
+    }
+    if (stats) {
+      stats.pagesVisited++;
+      stats.linksSeen += rows.length;
+      stats.itemsExtracted += out.length - before;
+      stats.undated += out.slice(before).filter(d => !d.disclosedAt).length;
+    }
+    console.log(`TDnet ${date} p${pageNo}: ${rows.length} 行`);
+
+    // ページャーは onclick="pagerLink('I_list_002_….html')" のため、HTML 中の次ページ名の有無で判定する
+    const next = listPageUrl(date, pageNo + 1).slice(LIST_BASE.length);
+    if (rows.length === 0 || !(await page.content()).includes(next)) break;
+  }
+  return out;
+}
+
+/**
+ * 一覧を開けなかったことを stats.errors に残す（health の errors 検知に使う）。stats が無ければ例外
+ */
+function failed(stats: SourceStats | undefined, url: string, reason: string) {
+  const message = `一覧を開けませんでした: ${url}（${reason}）`;
+  if (!stats) throw new Error(message);
+  stats.errors.push(message);
+  console.warn(`[warn] TDnet: ${message}`);
+}
+
+async function readRows(page: Page): Promise<RawRow[]> {
+  return page.$$eval('#main-list-table tr', trs => trs.map(tr => {
+    const cell = (cls: string) => tr.querySelector(`td.${cls}`);
+    const text = (cls: string) => (cell(cls)?.textContent || '').replace(/\s+/g, ' ').trim();
+    const href = (cls: string) => cell(cls)?.querySelector('a[href]')?.getAttribute('href') || '';
+    return {
+      time: text('kjTime'),
+      code: text('kjCode'),
+      company: text('kjName'),
+      title: text('kjTitle'),
+      pdfHref: href('kjTitle'),
+      xbrlHref: href('kjXbrl'),
+      exchange: text('kjPlace'),
+    };
+  }));
+}
+
+function toDisclosure(r: RawRow, date: string, pageUrl: string): TdnetDisclosure | null {
+  // 見出し行・空行（PDF の無い行）は除外
+  if (!r.code || !r.title || !r.pdfHref) return null;
+  const ticker = codeToTicker(r.code);
+  if (!ticker) return null;
+  return {
+    disclosedAt: parseJstDate(`${date} ${r.time}`),
+    code: r.code,
+    ticker,
+    company: r.company,
+    title: r.title,
+    pdfUrl: new URL(r.pdfHref, pageUrl).toString(),
+    xbrlUrl: r.xbrlHref ? new URL(r.xbrlHref, pageUrl).toString() : null,
+    exchange: r.exchange,
+  };
+}
+
+/**
+ * TDnet の5桁コード → ティッカー（"72030" → "7203.T", "130A0" → "130A.T"）
+ */
+export function codeToTicker(code: string): string | null {
+  const c = code.trim().toUpperCase();
+  const m = c.match(/^(\d[0-9A-Z]\d[0-9A-Z])0?$/);
+  return m ? `${m[1]}.T` : null;
+}
+
+/**
+ * ウォッチリスト（4桁コード or ティッカー）で絞り込む。空なら全件
+ */
+export function filterByCodes(list: TdnetDisclosure[], codes: string[]): TdnetDisclosure[] {
+  if (codes.length === 0) return list;
+  const wanted = new Set(codes.map(c => c.trim().toUpperCase().replace(/\.T$/, '')));
+  return list.filter(d => wanted.has(d.ticker.replace(/\.T$/, '')));
+}
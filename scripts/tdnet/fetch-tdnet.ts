@@ -1,236 +1,210 @@
 import { chromium } from 'playwright';
 import fs from 'node:fs';
-import path from 'node:path';
-
-type NewsItem = {
-  id: string;
-  category: 'company';
-  title: string;
-  summary: string;
-  source: string;
-  url: string;
-  publishedAt: string | null; // ISO8601
-  tags: string[];
-  locale: 'ja';
-  verified: boolean;
-  thumbnail: string;
-  type?: string;         // 'disclosure'
-  tickers?: string[];    // 例: ["7203.T"]
-};
-
-const NEWS_JSON = 'assets/data/news.json';
-const TARGET_CODES = (process.env.TDNET_CODES || '7203,6758,9432')
+import { NewsItem } from '../lib/schema';
+import { NEWS_JSON, readNewsFile } from '../lib/news-file';
+import { updateNewsFile } from '../lib/store';
+import { itemIdFromUrl } from '../lib/ids';
+import { assignClusters } from '../lib/cluster';
+import { assignImportance } from '../lib/importance';
+import { openContext, settleSnapshot, snapshotMissing, snapshotValue } from '../lib/replay';
+import { loadWatchlists, tagWatchlists, watchedCodes } from '../lib/watchlist';
+import { summarizeItems } from '../enrich/summarize';
+import { alertNewItems } from '../alerts/alerts';
+import { RunRecorder, RunReport, countDuplicates, finishRun, startRun } from '../health/report';
+import { TdnetDisclosure, crawlDailyList, filterByCodes } from './daily-list';
+import { extractFinancials, loadXbrlPackage, summarizeFinancials, xbrlKind } from './xbrl';
+import { Classifier, createClassifier, toItemClassification } from '../classify/classifier';
+
+// 対象銘柄（4桁コード）。"all" で全銘柄。未指定ならウォッチリスト（assets/data/watchlists.json）の銘柄
+const TARGET_CODES = (process.env.TDNET_CODES || '')
   .split(',')
   .map(s => s.trim())
   .filter(Boolean);
 const PER_CODE_LIMIT = parseInt(process.env.PER_CODE_LIMIT || '5', 10);
-const CLEAN_MODE = (process.env.CLEAN_MODE || 'true').toLowerCase() !== 'false';
+// 巡回する日付（YYYY-MM-DD, カンマ区切り）。未指定なら当日（JST）
+const TARGET_DATES = (process.env.TDNET_DATES || '')
+  .split(',')
+  .map(s => s.trim())
+  .filter(Boolean);
+// 決算短信・業績予想の修正の XBRL を読んで数値を付けるか（TDNET_XBRL=false で無効）
+const WITH_XBRL = (process.env.TDNET_XBRL || 'true').toLowerCase() !== 'false';
+
+// CLI（scripts/cli.ts）から渡す設定。未指定の項目は上の環境変数由来の既定値を使う
+export type TdnetOptions = {
+  codes?: string[];
+  watchlists?: string[];  // 対象にするウォッチリストの id（未指定なら WATCHLISTS / 全リスト）
+  perCodeLimit?: number;
+  dates?: string[];
+  xbrl?: boolean;
+  dryRun?: boolean;
+};
 
-async function main() {
-  assertExists(NEWS_JSON, `news.json が見つかりません: ${NEWS_JSON}`);
+// 実行記録（health/report.ts）上のソース名。一覧は日付別の1種類だけ
+const SOURCE_NAME = 'TDnet';
 
-  // 事前クリーン（example.comや明らかなダミー等の除去はX側クリーンに委任、ここでは何もしない）
+export async function fetchTdnet(opts: TdnetOptions = {}): Promise<RunReport> {
+  const run = startRun('tdnet', { dryRun: opts.dryRun });
+  try {
+    const added = await tdnetRun(opts, run);
+    // 追記した項目で通知ルールを評価する（dry-run では一致を表示するだけ）。新着が無い回も持ち越した分は送る
+    await alertNewItems(added, { dryRun: opts.dryRun });
+  } catch (e) {
+    finishRun(run, e);
+    throw e;
+  }
+  return finishRun(run);
+}
+
+async function tdnetRun(opts: TdnetOptions, run: RunRecorder): Promise<NewsItem[]> {
+  const lists = loadWatchlists(opts.watchlists);
+  const codes = opts.codes ?? (TARGET_CODES.length ? TARGET_CODES : watchedCodes(lists));
+  if (codes.length === 0) throw new Error('TDnet: 対象銘柄がありません。watchlists.json に銘柄を追加するか --codes を指定してください。');
+  const perCodeLimit = opts.perCodeLimit ?? PER_CODE_LIMIT;
+  if (snapshotMissing('tdnet')) return [];
+  // 再生時は記録した日付の一覧を読む（当日の一覧は日々変わるため）
+  const dates = snapshotValue('tdnet', 'dates', () => {
+    const list = opts.dates ?? TARGET_DATES;
+    return list.length ? list : [todayJst()];
+  });
+  for (const d of dates) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(d)) throw new Error(`日付は YYYY-MM-DD で指定してください: ${d}`);
+  }
+
+  assertExists(NEWS_JSON, `news.json が見つかりません: ${NEWS_JSON}`);
 
   const browser = await chromium.launch({ headless: true });
-  const ctx = await browser.newContext();
+  const ctx = await openContext(browser, 'tdnet');
   const page = await ctx.newPage();
 
-  const added: NewsItem[] = [];
-
-  for (const code of TARGET_CODES) {
-    const list = await fetchTdnetByCode(page, code, PER_CODE_LIMIT);
-    added.push(...list);
+  // 日付別一覧を全件読んでから、ウォッチリストで絞る（銘柄ごとに検索画面は操作しない）
+  const all: TdnetDisclosure[] = [];
+  try {
+    for (const date of dates) {
+      all.push(...await crawlDailyList(page, date, run.source(SOURCE_NAME)));
+    }
+  } finally {
+    // 常駐（daemon）で失敗が続いてもブラウザを残さない
+    await ctx.close();
+    await browser.close();
   }
 
-  await browser.close();
+  const watched = codes.some(c => c.toLowerCase() === 'all') ? all : filterByCodes(all, codes);
+  const classifier = createClassifier();
+  const added = tagWatchlists(limitPerCode(watched, perCodeLimit).map(d => toNewsItem(d, classifier)), lists);
+  console.log(`TDnet: 一覧 ${all.length} 件中、対象銘柄 ${watched.length} 件（採用 ${added.length} 件）`);
+  if (opts.xbrl ?? WITH_XBRL) await attachFinancials(added);
+
+  // 記録/再生モードではここで終了（news.json は更新しない）
+  if (!settleSnapshot('tdnet', added)) return [];
 
   if (added.length === 0) {
     console.log('TDnet: 追加候補が見つかりませんでした。');
-    return;
+    return [];
   }
 
-  const existing = JSON.parse(fs.readFileSync(NEWS_JSON, 'utf-8')) as any[];
-  const existingUrls = new Set(existing.map(x => (x && x.url) || ''));
-
-  const nextIdStart = calcNextIdStart(existing);
-  let idCounter = nextIdStart;
-
-  const toAppend: any[] = [];
-  for (const n of added) {
-    if (!n.url || existingUrls.has(n.url)) continue;
-    toAppend.push({
-      ...n,
-      id: `company-${idCounter++}`
-    });
-  }
+  // 要約・タグ付け（SUMMARIZER 未設定なら何もしない。既存の項目には問い合わせない）
+  const summarized = await summarizeItems(added, { skipIds: new Set(readNewsFile().map(x => x.id)) });
+
+  let toAppend: NewsItem[] = [];
+  let merged: NewsItem[] = [];
+  const written = await updateNewsFile(existing => {
+    // id は正規化 URL のハッシュなので、id の一致で重複（既存・今回分とも）を判定できる
+    const existingIds = new Set(existing.map(x => x.id));
+    toAppend = [];
+    for (const n of summarized) {
+      if (!n.url || existingIds.has(n.id)) continue;
+      existingIds.add(n.id);
+      toAppend.push(n);
+    }
+    if (!toAppend.length) return null;
+    merged = assignImportance(assignClusters(existing.concat(toAppend)));
+    return merged;
+  }, { dryRun: opts.dryRun });
+  countDuplicates(run, summarized, toAppend, () => SOURCE_NAME);
 
   if (toAppend.length === 0) {
     console.log('TDnet: 新規に追加できるURLはありません（既存と重複）。');
-    return;
+    return [];
   }
-
-  const merged = existing.concat(toAppend);
-  fs.writeFileSync(NEWS_JSON, JSON.stringify(merged, null, 2), 'utf-8');
-  console.log(`TDnet: news.json に ${toAppend.length} 件を追記しました。`);
+  if (written) console.log(`TDnet: news.json に ${toAppend.length} 件を追記しました。`);
+  // 追記した項目は重要度を付けた後のもので返す（通知ルールの評価に使う）
+  const addedIds = new Set(toAppend.map(x => x.id));
+  return merged.filter(x => addedIds.has(x.id));
 }
 
 function assertExists(p: string, msg?: string) {
   if (!fs.existsSync(p)) throw new Error(msg || `File not found: ${p}`);
 }
 
-function calcNextIdStart(items: any[]): number {
-  // 既存 "company-N" と "sns-N" などが混在してもよいように、company-N の最大値を基準にする
-  let max = 0;
-  for (const it of items) {
-    const m = typeof it?.id === 'string' ? it.id.match(/^company-(\d+)$/) : null;
-    if (m) {
-      const n = parseInt(m[1], 10);
-      if (!Number.isNaN(n)) max = Math.max(max, n);
-    }
-  }
-  return max + 1;
+/**
+ * 一覧の1行 → news.json の項目（URL は開示 PDF）
+ * 決算短信・業績予想の修正は type を earnings にする（通知ルールの types・app.js の種別と揃える）
+ */
+export function toNewsItem(d: TdnetDisclosure, classifier: Classifier): NewsItem {
+  const code4 = d.ticker.replace(/\.T$/, '');
+  return {
+    id: itemIdFromUrl(d.pdfUrl),
+    category: 'company',
+    title: clip(d.title, 120),
+    summary: `${d.company}（${code4}）の適時開示`,
+    source: `TDnet ${code4}`,
+    url: d.pdfUrl,
+    publishedAt: d.disclosedAt,
+    tags: [],
+    locale: 'ja',
+    verified: true,
+    thumbnail: '',
+    type: xbrlKind(d.title) ? 'earnings' : 'disclosure',
+    tickers: [d.ticker],
+    // 種別は適時開示で確定しているので、分類器は sentiment（上方修正・減配など）のために通す
+    classification: toItemClassification(classifier.classify({ title: d.title })),
+    disclosure: {
+      code: d.code,
+      company: d.company,
+      exchange: d.exchange,
+      pdfUrl: d.pdfUrl,
+      xbrlUrl: d.xbrlUrl,
+    },
+  };
 }
 
 /**
- * TDnet（適時開示）から銘柄コード別に最新 N 件取得
- * 改良: 実際にフォーム検索を行い、結果テーブルから厳密に抽出
+ * 決算短信・業績予想の修正に XBRL の数値（financials）と一行要約を付ける
+ * 取得・解析に失敗した項目は数値なしのまま残す
  */
-async function fetchTdnetByCode(page: import('playwright').Page, code: string, limit: number): Promise<NewsItem[]> {
-  const base = 'https://www.release.tdnet.info/inbs/I_list_001_001.html';
-  await page.goto(base, { waitUntil: 'domcontentloaded' });
-
-  const results: NewsItem[] = [];
-
-  // 1) 可能なら検索フォームへ入力して実行（セレクタは変化しやすいので複数候補）
-  const inputSelCandidates = ['input[name="code"]', 'input#code', 'input[type="search"]', 'form input[type="text"]'];
-  let filled = false;
-  for (const sel of inputSelCandidates) {
-    const exists = await page.locator(sel).first().count();
-    if (exists > 0) {
-      await page.fill(sel, code);
-      filled = true;
-      break;
-    }
-  }
-  if (filled) {
-    // 検索ボタン候補
-    const btnSelCandidates = ['button[type="submit"]', 'input[type="submit"]', 'button:has-text("検索")', 'button:has-text("Search")'];
-    let clicked = false;
-    for (const bsel of btnSelCandidates) {
-      const count = await page.locator(bsel).first().count();
-      if (count > 0) {
-        await page.locator(bsel).first().click();
-        clicked = true;
-        break;
-      }
-    }
-    if (clicked) {
-      await page.waitForLoadState('domcontentloaded', { timeout: 10000 }).catch(()=>{});
-    }
-  } else {
-    // フォームが見当たらない場合はクエリ付きURLでフォールバック
-    await page.goto(`https://www.release.tdnet.info/inbs/I_list_001_001.html?code=${encodeURIComponent(code)}`, { waitUntil: 'domcontentloaded' }).catch(()=>{});
-  }
-
-  // 2) 結果テーブルから行を抽出（複数の候補セレクタを順番に試す）
-  const tableCandidates = [
-    'table#result', 'table.list', 'table', '.result table', '.list table', 'article table'
-  ];
-  let rowHandles: import('playwright').ElementHandle[] = [];
-  for (const tsel of tableCandidates) {
-    const table = page.locator(tsel).first();
-    if (await table.count() > 0) {
-      rowHandles = await table.locator('tr').elementHandles();
-      if (rowHandles.length > 0) break;
-    }
-  }
-
-  // 3) 行から a と日付を取り出して整形
-  for (const tr of rowHandles) {
-    if (results.length >= limit) break;
-
-    const linkHandle = await tr.$('a[href]');
-    if (!linkHandle) continue;
-    const href = await linkHandle.getAttribute('href');
-    const titleRaw = (await linkHandle.textContent()) || '';
-    if (!href || !titleRaw.trim()) continue;
-
-    const url = toAbs(page.url(), href);
-    if (!/^https?:\/\//.test(url)) continue;
-
-    // 近傍の日時セルを探索
-    let publishedAt: string | null = null;
-    const dateCell = await tr.$('td:has-text("202") , td:has-text("2024"), td:has-text("2025"), td[class*="date"], td[headers*="date"]');
-    if (dateCell) {
-      const dtRaw = ((await dateCell.textContent()) || '').trim();
-      const iso = toISO(dtRaw);
-      if (iso) publishedAt = iso;
-    }
-
-    const title = clip(titleRaw, 120);
-
-    results.push({
-      id: 'company-0',
-      category: 'company',
-      title,
-      summary: '',
-      source: `TDnet ${code}`,
-      url,
-      publishedAt,
-      tags: [],
-      locale: 'ja',
-      verified: true,
-      thumbnail: '',
-      type: 'disclosure',
-      tickers: [`${code}.T`]
-    });
-  }
-
-  // 4) フォールバック（テーブルが取れない場合は広めの a 抽出→同ページ内の候補のみ）
-  if (results.length === 0) {
-    const anchors = await page.locator('a[href]').elementHandles();
-    for (const a of anchors) {
-      if (results.length >= limit) break;
-      const href = await a.getAttribute('href');
-      const text = ((await a.textContent()) || '').trim();
-      if (!href || !text) continue;
-      const abs = toAbs(page.url(), href);
-      // TDnetの詳細ページらしいURLに限定（ヒューリスティック）
-      if (!/\/inbs\/.+/i.test(abs)) continue;
-
-      results.push({
-        id: 'company-0',
-        category: 'company',
-        title: clip(text, 120),
-        summary: '',
-        source: `TDnet ${code}`,
-        url: abs,
-        publishedAt: null,
-        tags: [],
-        locale: 'ja',
-        verified: true,
-        thumbnail: '',
-        type: 'disclosure',
-        tickers: [`${code}.T`]
-      });
+async function attachFinancials(items: NewsItem[]) {
+  let attached = 0;
+  for (const item of items) {
+    const xbrlUrl = item.disclosure?.xbrlUrl;
+    if (!xbrlUrl || !xbrlKind(item.title)) continue;
+    try {
+      const financials = extractFinancials(await loadXbrlPackage(xbrlUrl));
+      if (!financials) continue;
+      item.financials = financials;
+      item.summary = summarizeFinancials(financials) || item.summary;
+      attached++;
+    } catch (e: any) {
+      console.warn(`TDnet: XBRL を読めませんでした（${item.title}）: ${e?.message || e}`);
     }
   }
+  if (attached) console.log(`TDnet: XBRL から ${attached} 件の業績数値を取り出しました。`);
+}
 
-  const uniq = uniqBy(results, r => r.url);
-  console.log(`TDnet ${code}: 抽出 ${uniq.length} 件`);
-  return uniq.slice(0, limit);
+/**
+ * 銘柄ごとに新しい順で最大 limit 件
+ */
+function limitPerCode(list: TdnetDisclosure[], limit: number): TdnetDisclosure[] {
+  const sorted = list.slice().sort((a, b) => (b.disclosedAt || '').localeCompare(a.disclosedAt || ''));
+  const counts = new Map<string, number>();
+  return sorted.filter(d => {
+    const n = counts.get(d.ticker) || 0;
+    counts.set(d.ticker, n + 1);
+    return n < limit;
+  });
 }
 
-function uniqBy<T, K extends string | number>(arr: T[], key: (t: T) => K): T[] {
-  const seen = new Set<K>();
-  const out: T[] = [];
-  for (const x of arr) {
-    const k = key(x);
-    if (seen.has(k)) continue;
-    seen.add(k);
-    out.push(x);
-  }
-  return out;
+function todayJst(): string {
+  return new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
 }
 
 function clip(s: string, len: number): string {
@@ -238,52 +212,11 @@ function clip(s: string, len: number): string {
   return t.length > len ? t.slice(0, len - 1) + '…' : t;
 }
 
-function toAbs(baseUrl: string, href: string): string {
-  try {
-    return new URL(href, baseUrl).toString();
-  } catch {
-    return href;
-  }
-}
-
-function toISO(raw: string): string | null {
-  const s = (raw || '').trim();
-  // すでにISOっぽい
-  const isoTry = new Date(s);
-  if (!isNaN(+isoTry)) return isoTry.toISOString();
-  // 日本的な日付フォーマットをより幅広いパターンで対応
-  const patterns = [
-    /(\d{4})[\/\-\.](\d{1,2})[\/\-\.](\d{1,2})(?:[\sT]+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/, // 2024/01/01 12:34:56
-    /(\d{4})年(\d{1,2})月(\d{1,2})日(?:[\s]+(\d{1,2})時(\d{2})分)?/, // 2024年1月1日 12時34分
-    /(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[\s]+(\d{1,2}):(\d{2}))?/, // 01/01/2024 12:34
-  ];
-  
-  for (const pattern of patterns) {
-    const m = s.match(pattern);
-    if (m) {
-      let y, mo, d, hh = 0, mm = 0, ss = 0;
-      if (pattern === patterns[0] || pattern === patterns[1]) {
-        y = parseInt(m[1], 10);
-        mo = parseInt(m[2], 10) - 1;
-        d = parseInt(m[3], 10);
-        hh = m[4] ? parseInt(m[4], 10) : 0;
-        mm = m[5] ? parseInt(m[5], 10) : 0;
-        ss = m[6] ? parseInt(m[6], 10) : 0;
-      } else if (pattern === patterns[2]) {
-        y = parseInt(m[3], 10);
-        mo = parseInt(m[1], 10) - 1;
-        d = parseInt(m[2], 10);
-        hh = m[4] ? parseInt(m[4], 10) : 0;
-        mm = m[5] ? parseInt(m[5], 10) : 0;
-      }
-      const dt = new Date(y, mo, d, hh, mm, ss);
-      if (!isNaN(+dt)) return dt.toISOString();
-    }
-  }
-  return null;
-}
-
-main().catch(err => {
-  console.error(err);
-  process.exit(1);
-});
\ No newline at end of file
+if (require.main === module) {
+  fetchTdnet().then(r => {
+    if (r.flags.length) process.exitCode = 2;
+  }).catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,79 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+import { extractFinancials, loadXbrlPackage, summarizeFinancials, xbrlKind } from './xbrl';
+
+/**
+ * XBRL パッケージの読み取り（fixtures/ のサマリー iXBRL 入り zip）
+ *   earnings.zip           決算短信（連結）。前期実績・第2四半期予想・個別の数値も含む
+ *   forecast-revision.zip  業績予想の修正（連結）。修正前/修正後の通期予想と第2四半期予想
+ */
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+test('決算短信: 当期実績・前年同期比・通期予想（連結のみ）', async () => {
+  const f = extractFinancials(await loadXbrlPackage(path.join(FIXTURES, 'earnings.zip')));
+  assert.deepEqual(f, {
+    kind: 'earnings',
+    basis: 'consolidated',
+    actual: {
+      netSales: 45095325000000,
+      operatingIncome: 5352934000000,
+      ordinaryIncome: 6965085000000,
+      netIncome: 4944933000000,
+      eps: 365.94,
+      yoy: { netSales: 0.214, operatingIncome: 0.964, ordinaryIncome: 0.547, netIncome: 1.017 },
+    },
+    forecast: {
+      netSales: 46000000000000,
+      operatingIncome: 4300000000000,
+      netIncome: 3570000000000,
+      eps: 271.1,
+      yoy: { netSales: 0.02, operatingIncome: -0.197, netIncome: -0.278 },
+    },
+  });
+  assert.equal(summarizeFinancials(f!), '売上高 45.10兆円（+21.4%）、営業利益 5.35兆円（+96.4%）、経常利益 6.97兆円（+54.7%）、純利益 4.94兆円（+101.7%）、EPS 365.94円／通期予想 営業利益 4.30兆円');
+});
+
+test('業績予想の修正: 修正前 → 修正後の通期予想', async () => {
+  const f = extractFinancials(await loadXbrlPackage(path.join(FIXTURES, 'forecast-revision.zip')));
+  assert.deepEqual(f, {
+    kind: 'forecastRevision',
+    basis: 'consolidated',
+    forecast: { netSales: 115000000000, operatingIncome: 7500000000, ordinaryIncome: 8000000000, netIncome: 5000000000, eps: 50 },
+    previousForecast: { netSales: 120000000000, operatingIncome: 10000000000, ordinaryIncome: 10500000000, netIncome: 7000000000, eps: 70 },
+  });
+  assert.equal(summarizeFinancials(f!), '通期予想を修正 売上高 1,200億円→1,150億円（-4.2%）、営業利益 100億円→75億円（-25.0%）、純利益 70億円→50億円（-28.6%）');
+});
+
+test('開示タイトルの判定', () => {
+  assert.equal(xbrlKind('2024年3月期 決算短信〔日本基準〕（連結）'), 'earnings');
+  assert.equal(xbrlKind('業績予想の修正に関するお知らせ'), 'forecastRevision');
+  assert.equal(xbrlKind('自己株式の取得状況に関するお知らせ'), null);
+});
+
+test('http(s) からの取得: User-Agent を送り、応答が無ければ打ち切る', async () => {
+  const zip = fs.readFileSync(path.join(FIXTURES, 'earnings.zip'));
+  let userAgent = '';
+  const server = http.createServer((req, res) => {
+    userAgent = req.headers['user-agent'] || '';
+    if (req.url === '/stall.zip') return; // 応答しない
+    res.writeHead(200, { 'Content-Type': 'application/zip' });
+    res.end(zip);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  try {
+    const data = await loadXbrlPackage(`${base}/081220240508572030.zip`, 5000, 'fin-news-test/1.0');
+    assert.equal(extractFinancials(data)?.kind, 'earnings');
+    assert.equal(userAgent, 'fin-news-test/1.0');
+
+    await assert.rejects(loadXbrlPackage(`${base}/stall.zip`, 200), /abort|timeout/i);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+});
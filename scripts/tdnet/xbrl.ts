@@ -0,0 +1,213 @@
+import fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import AdmZip from 'adm-zip';
+import { FinancialFigures, Financials } from '../lib/schema';
+import { snapshotText } from '../lib/replay';
+import { USER_AGENT } from '../lib/crawl';
+
+/**
+ * TDnet の XBRL パッケージ（zip）から決算短信・業績予想の修正の主要数値を取り出す
+ * 対象は zip 内のサマリー iXBRL（tse-ed-t タクソノミ）。添付の財務諸表本体（jppfs）は読まない
+ *   決算短信         tse-acedjsm / tse-qcedjsm …  当期実績 + 前年同期比 + 業績予想
+ *   業績予想の修正   tse-rvfc …                    修正前予想 → 修正後予想
+ * 取得元は http(s) のほか、ローカルの zip パス / file:// も受け付ける（フィクスチャ検証用）
+ */
+
+// 1件のダウンロードで tdnet の実行全体（常駐時も）が止まらないように打ち切る
+const XBRL_TIMEOUT_MS = parseInt(process.env.XBRL_TIMEOUT_MS || '30000', 10);
+
+type Fact = {
+  name: string;       // 接頭辞を除いた要素名（例: NetSales）
+  context: string;    // contextRef（例: CurrentYearDuration_ConsolidatedMember_ResultMember）
+  value: number;
+};
+
+type FigureKey = Exclude<keyof FinancialFigures, 'yoy'>;
+type ChangeKey = keyof FinancialFigures['yoy'];
+
+// 項目ごとの要素名候補（先に見つかったものを採用）。IFRS / 米国基準の接尾辞は除いて照合する
+const FIGURE_NAMES: Record<FigureKey, string[]> = {
+  netSales: ['NetSales', 'OperatingRevenues', 'Revenue', 'Revenues', 'OrdinaryRevenuesBK', 'OrdinaryRevenuesIN'],
+  operatingIncome: ['OperatingIncome', 'OperatingProfit'],
+  ordinaryIncome: ['OrdinaryIncome'],
+  netIncome: ['ProfitAttributableToOwnersOfParent', 'NetIncomeAttributableToOwnersOfParent', 'NetIncome', 'Profit'],
+  eps: ['NetIncomePerShare', 'BasicEarningsPerShare', 'EarningsPerShare'],
+};
+
+const LABELS: Record<FigureKey, string> = {
+  netSales: '売上高',
+  operatingIncome: '営業利益',
+  ordinaryIncome: '経常利益',
+  netIncome: '純利益',
+  eps: 'EPS',
+};
+
+/**
+ * 開示タイトルから XBRL を読む対象かどうかを判定する
+ */
+export function xbrlKind(title: string): Financials['kind'] | null {
+  if (/業績予想の修正|業績予想修正/.test(title)) return 'forecastRevision';
+  if (/決算短信/.test(title)) return 'earnings';
+  return null;
+}
+
+export async function loadXbrlPackage(src: string, timeoutMs: number = XBRL_TIMEOUT_MS, userAgent: string = USER_AGENT): Promise<Buffer> {
+  if (src.startsWith('file:')) return fs.readFileSync(fileURLToPath(src));
+  if (!/^https?:\/\//i.test(src)) return fs.readFileSync(src);
+
+  // 記録/再生はテキストで保存するため base64 にして通す
+  const body = await snapshotText('tdnet', src, async () => {
+    const res = await fetch(src, { headers: { 'User-Agent': userAgent }, signal: AbortSignal.timeout(timeoutMs) });
+    if (!res.ok) throw new Error(`XBRL の取得に失敗しました: ${res.status} ${src}`);
+    return Buffer.from(await res.arrayBuffer()).toString('base64');
+  });
+  return Buffer.from(body, 'base64');
+}
+
+/**
+ * zip の中身から主要数値を取り出す。サマリー iXBRL が無ければ null
+ */
+export function extractFinancials(zipData: Buffer): Financials | null {
+  const entries = new AdmZip(zipData).getEntries()
+    .filter(e => !e.isDirectory && /ixbrl\.html?$/i.test(e.entryName));
+  // サマリー（Summary/ 配下）を優先し、無ければ全 iXBRL から拾う
+  const summary = entries.filter(e => /(^|\/)Summary\//i.test(e.entryName));
+  const targets = summary.length ? summary : entries;
+  if (targets.length === 0) return null;
+
+  const facts = targets.flatMap(e => parseIxbrlFacts(e.getData().toString('utf-8')));
+  if (facts.length === 0) return null;
+
+  const kind: Financials['kind'] = targets.some(e => /rvfc/i.test(e.entryName)) ? 'forecastRevision' : 'earnings';
+  const consolidated = facts.some(f => /(^|_)ConsolidatedMember/.test(f.context));
+  const basis: Financials['basis'] = consolidated ? 'consolidated' : 'nonConsolidated';
+  // 連結があれば連結のみ、無ければ個別のみを見る（どちらの指定も無い context は共通とみなす）
+  const scoped = facts.filter(f => consolidated
+    ? !/NonConsolidatedMember/.test(f.context)
+    : !/(^|_)ConsolidatedMember/.test(f.context));
+
+  const out: Financials = { kind, basis };
+  if (kind === 'earnings') {
+    out.actual = pickFigures(scoped, c => /^Current(Year|AccumulatedQ\d)Duration/.test(c) && /ResultMember/.test(c));
+    out.forecast = pickFigures(scoped, c => isFullYear(c) && /ForecastMember/.test(c) && !/PreviousMember/.test(c));
+  } else {
+    out.forecast = pickFigures(scoped, c => isFullYear(c) && /CurrentMember/.test(c) && /ForecastMember/.test(c));
+    out.previousForecast = pickFigures(scoped, c => isFullYear(c) && /PreviousMember/.test(c) && /ForecastMember/.test(c));
+  }
+  for (const k of ['actual', 'forecast', 'previousForecast'] as const) {
+    if (out[k] && Object.keys(out[k]!).length === 0) delete out[k];
+  }
+  return out.actual || out.forecast ? out : null;
+}
+
+// 通期（予想は通期を優先し、第2四半期累計等は見ない）。レンジ予想の上限/下限も除外
+function isFullYear(context: string): boolean {
+  return /^(Current|Next)YearDuration/.test(context) && !/(Upper|Lower)Member/.test(context);
+}
+
+function pickFigures(facts: Fact[], match: (context: string) => boolean): FinancialFigures {
+  const inScope = facts.filter(f => match(f.context));
+  const out: FinancialFigures = {};
+  for (const key of Object.keys(FIGURE_NAMES) as FigureKey[]) {
+    for (const name of FIGURE_NAMES[key]) {
+      const hit = inScope.find(f => f.name === name);
+      if (hit) { out[key] = hit.value; break; }
+    }
+  }
+  const yoy: FinancialFigures['yoy'] = {};
+  for (const key of ['netSales', 'operatingIncome', 'ordinaryIncome', 'netIncome'] as ChangeKey[]) {
+    for (const name of FIGURE_NAMES[key]) {
+      const hit = inScope.find(f => f.name === `ChangeIn${name}`);
+      if (hit) { yoy[key] = hit.value; break; }
+    }
+  }
+  if (Object.keys(yoy).length) out.yoy = yoy;
+  return out;
+}
+
+/**
+ * iXBRL（XHTML）から tse-ed-t の ix:nonFraction を数値として取り出す
+ * scale（桁）と sign（負号）を反映する。変化率は 0.123 = 12.3% の比率になる
+ */
+export function parseIxbrlFacts(html: string): Fact[] {
+  const out: Fact[] = [];
+  const re = /<ix:nonFraction\b([^>]*)>([\s\S]*?)<\/ix:nonFraction>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html))) {
+    const attrs = parseAttrs(m[1]);
+    const [prefix, local] = (attrs.name || '').split(':');
+    if (!local || !/^tse-ed-t/.test(prefix) || !attrs.contextref) continue;
+    if (attrs['xsi:nil'] === 'true') continue;
+
+    const text = m[2].replace(/<[^>]*>/g, '').normalize('NFKC').trim();
+    let value: number;
+    if (/fixed-zero/i.test(attrs.format || '')) value = 0;
+    else {
+      const digits = text.replace(/[^0-9.]/g, '');
+      if (!digits) continue;
+      value = parseFloat(digits);
+    }
+    const scale = parseInt(attrs.scale || '0', 10);
+    value = Number((value * Math.pow(10, scale)).toPrecision(12));
+    if (attrs.sign === '-') value = -value;
+
+    out.push({ name: local.replace(/(IFRS|US|JMIS)$/, ''), context: attrs.contextref, value });
+  }
+  return out;
+}
+
+function parseAttrs(s: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  const re = /([\w:.-]+)\s*=\s*"([^"]*)"/g;
+  let m: RegExpExecArray | null;
+  // 属性名は大文字小文字を区別しない（contextRef / contextref）
+  while ((m = re.exec(s))) out[m[1].toLowerCase()] = m[2];
+  return out;
+}
+
+/**
+ * 一覧・カード表示用の一行要約
+ *   決算短信:       売上高 1.23兆円（+12.3%）、営業利益 …、純利益 …、EPS 123.4円／通期予想 営業利益 …
+ *   業績予想の修正: 通期予想を修正 営業利益 1,000億円→1,200億円（+20.0%）、…
+ */
+export function summarizeFinancials(f: Financials): string {
+  if (f.kind === 'forecastRevision') {
+    const prev = f.previousForecast || {};
+    const next = f.forecast || {};
+    const parts = (['netSales', 'operatingIncome', 'netIncome'] as FigureKey[])
+      .filter(k => next[k] !== undefined)
+      .map(k => {
+        const before = prev[k];
+        if (before === undefined) return `${LABELS[k]} ${formatYen(next[k]!)}`;
+        return `${LABELS[k]} ${formatYen(before)}→${formatYen(next[k]!)}${before ? `（${formatRate((next[k]! - before) / Math.abs(before))}）` : ''}`;
+      });
+    return parts.length ? `通期予想を修正 ${parts.join('、')}` : '';
+  }
+
+  const a = f.actual || {};
+  const parts = (['netSales', 'operatingIncome', 'ordinaryIncome', 'netIncome'] as FigureKey[])
+    .filter(k => a[k] !== undefined)
+    .map(k => {
+      const change = a.yoy?.[k as ChangeKey];
+      return `${LABELS[k]} ${formatYen(a[k]!)}${change !== undefined ? `（${formatRate(change)}）` : ''}`;
+    });
+  if (a.eps !== undefined) parts.push(`EPS ${a.eps.toLocaleString('ja-JP')}円`);
+  let line = parts.join('、');
+  const fc = f.forecast || {};
+  const fcKey = (['operatingIncome', 'netIncome', 'netSales'] as FigureKey[]).find(k => fc[k] !== undefined);
+  if (fcKey) line += `${line ? '／' : ''}通期予想 ${LABELS[fcKey]} ${formatYen(fc[fcKey]!)}`;
+  return line;
+}
+
+function formatYen(v: number): string {
+  const abs = Math.abs(v);
+  const sign = v < 0 ? '-' : '';
+  if (abs >= 1e12) return `${sign}${(abs / 1e12).toFixed(2)}兆円`;
+  if (abs >= 1e8) return `${sign}${Math.round(abs / 1e8).toLocaleString('ja-JP')}億円`;
+  if (abs >= 1e6) return `${sign}${Math.round(abs / 1e6).toLocaleString('ja-JP')}百万円`;
+  return `${sign}${abs.toLocaleString('ja-JP')}円`;
+}
+
+function formatRate(r: number): string {
+  return `${r >= 0 ? '+' : ''}${(r * 100).toFixed(1)}%`;
+}
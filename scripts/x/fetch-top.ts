@@ -2,24 +2,27 @@ import { chromium, BrowserContext, Page } from 'playwright';
 import fs from 'node:fs';
 import path from 'node:path';
 import { assertFileExistsOrThrow } from './utils';
-
-type Candidate = {
-  id: string;
-  category: 'sns';
-  title: string;
-  summary: string;
-  source: string; // e.g. "X: @nikkei"
-  url: string;
-  publishedAt: string | null; // ISO8601
-  tags: string[];
-  locale: 'ja';
-  verified: boolean;
-  thumbnail: string;
-};
+import { NewsItem } from '../lib/schema';
+import { NEWS_JSON, readNewsFile } from '../lib/news-file';
+import { updateNewsFile } from '../lib/store';
+import { itemIdFromUrl } from '../lib/ids';
+import { assignClusters } from '../lib/cluster';
+import { assignImportance } from '../lib/importance';
+import { RUN_MODE, openContext, settleSnapshot, snapshotMissing, snapshotValue } from '../lib/replay';
+import { linkTickers } from '../entities/linker';
+import { loadWatchlists, tagWatchlists, xFetchTargets } from '../lib/watchlist';
+import { summarizeItems } from '../enrich/summarize';
+import { alertNewItems } from '../alerts/alerts';
+import { RunRecorder, RunReport, SourceStats, countDuplicates, finishRun, startRun } from '../health/report';
+import { Classifier, createClassifier, toItemClassification } from '../classify/classifier';
+import { parsePost, readPostDom } from './post';
+
+// source は "X: @nikkei" の形式（リポストも元の投稿者。x/post.ts）
+type Candidate = NewsItem & { category: 'sns' };
 
 const STORAGE_PATH = process.env.PW_STORAGE_STATE_PATH || 'scripts/x/storageState.json';
-const NEWS_JSON = 'assets/data/news.json';
 // 既定ターゲット（15件程度に調整）: 為替/日本株系の主要アカウント
+// 取得対象であってウォッチ対象ではない（ウォッチリストの xAccounts は watchlists.json 側で持ち、取得対象にも加える）
 const DEFAULT_TARGETS = [
   '@nikkei',
   '@ReutersJapan',
@@ -42,100 +45,137 @@ const TARGET_HANDLES = (process.env.X_TARGETS || DEFAULT_TARGETS.join(','))
   .map(s => s.trim())
   .filter(Boolean);
 const PER_ACCOUNT_LIMIT = parseInt(process.env.PER_ACCOUNT_LIMIT || '5', 10);
-// クリーンモード: ダミー（example.com）や特定ID（sns-10..14）を取り込み前に削除
+// クリーンモード: ダミー（example.com）を取り込み時に削除
 const CLEAN_MODE = (process.env.CLEAN_MODE || 'true').toLowerCase() !== 'false';
 
-// 企業優先モード（trueで issuer=withIssuer を優先し、決算/開示系のtypeのみ追加）
-const COMPANY_PRIORITY = (process.env.COMPANY_PRIORITY || 'false').toLowerCase() === 'true';
-
-async function main() {
-  assertFileExistsOrThrow(STORAGE_PATH, `storageState がありません。先に npm run pw:login を実行してログイン状態を保存してください: ${STORAGE_PATH}`);
-  assertFileExistsOrThrow(NEWS_JSON, `news.json が見つかりません: ${NEWS_JSON}`);
+// 固定投稿はこの時間より古ければ取り込まない（プロフィールに固定されたまま毎回並ぶため）
+const PINNED_MAX_AGE_HOURS = parseInt(process.env.X_PINNED_MAX_AGE_HOURS || '24', 10);
+
+// CLI（scripts/cli.ts）から渡す設定。未指定の項目は上の環境変数由来の既定値を使う
+export type XOptions = {
+  targets?: string[];
+  watchlists?: string[];  // 対象にするウォッチリストの id（未指定なら WATCHLISTS / 全リスト）
+  perAccountLimit?: number;
+  clean?: boolean;
+  storageState?: string;
+  dryRun?: boolean;
+};
 
-  // 既存の news.json を読み込み
-  let existing = JSON.parse(fs.readFileSync(NEWS_JSON, 'utf-8')) as any[];
-
-  // クリーンモードでダミーエントリを削除
-  if (CLEAN_MODE) {
-    const before = existing.length;
-    existing = existing.filter((x) => {
-      if (!x) return false;
-      // URLがexample.com配下は削除
-      const isExample = typeof x.url === 'string' && /(^|\/\/)example\.com/i.test(x.url);
-      // 事前に作成したダミーIDの範囲を削除（sns-10..sns-14）
-      const isDummyId = typeof x.id === 'string' && /^sns-(1[0-4])$/.test(x.id);
-      return !(isExample || isDummyId);
-    });
-    const removed = before - existing.length;
-    if (removed > 0) {
-      fs.writeFileSync(NEWS_JSON, JSON.stringify(existing, null, 2), 'utf-8');
-      console.log(`クリーン: ダミー項目を ${removed} 件削除しました。`);
-    } else {
-      console.log('クリーン: 削除対象のダミー項目はありませんでした。');
-    }
+export async function fetchX(opts: XOptions = {}): Promise<RunReport> {
+  const run = startRun('x', { dryRun: opts.dryRun });
+  try {
+    const added = await xRun(opts, run);
+    // 追記した項目で通知ルールを評価する（dry-run では一致を表示するだけ）。新着が無い回も持ち越した分は送る
+    await alertNewItems(added, { dryRun: opts.dryRun });
+  } catch (e) {
+    finishRun(run, e);
+    throw e;
   }
+  return finishRun(run);
+}
+
+async function xRun(opts: XOptions, run: RunRecorder): Promise<NewsItem[]> {
+  const lists = loadWatchlists(opts.watchlists);
+  const targets = opts.targets ?? xFetchTargets(lists, TARGET_HANDLES);
+  if (targets.length === 0) throw new Error('X: 対象アカウントがありません。X_TARGETS か --targets を指定してください。');
+  const perAccountLimit = opts.perAccountLimit ?? PER_ACCOUNT_LIMIT;
+  const clean = opts.clean ?? CLEAN_MODE;
+  const storagePath = opts.storageState ?? STORAGE_PATH;
+
+  // 再生モードは記録済みの応答を返すだけなのでログイン状態は不要
+  if (RUN_MODE !== 'replay') assertFileExistsOrThrow(storagePath, `storageState がありません。先に npm run pw:login を実行してログイン状態を保存してください: ${storagePath}`);
+  assertFileExistsOrThrow(NEWS_JSON, `news.json が見つかりません: ${NEWS_JSON}`);
+  // 記録は Cookie を含みコミットしないので、CI でも無ければ飛ばす
+  if (snapshotMissing('x', { optional: true })) return [];
+  // 固定投稿の経過時間の基準。再生時は記録した時刻（実行日によって除外する投稿が変わらないように）
+  const now = new Date(snapshotValue('x', 'now', () => new Date().toISOString()));
 
   const browser = await chromium.launch({ headless: false });
-  const context: BrowserContext = await browser.newContext({ storageState: STORAGE_PATH });
+  const context: BrowserContext = await openContext(browser, 'x', fs.existsSync(storagePath) ? { storageState: storagePath } : {});
   const page = await context.newPage();
 
+  const classifier = createClassifier();
   const added: Candidate[] = [];
-  for (const handle of TARGET_HANDLES) {
-    const list = await fetchFromAccount(page, handle, PER_ACCOUNT_LIMIT);
-    added.push(...list);
+  try {
+    for (const handle of targets) {
+      const name = `X: @${handle.replace(/^@/, '')}`;
+      // 1アカウントの失敗（タイムアウト・凍結・ログイン画面）で、ほかのアカウントの分まで捨てない
+      try {
+        const list = await fetchFromAccount(page, handle, perAccountLimit, now, classifier, run.source(name));
+        added.push(...list);
+      } catch (e) {
+        console.warn(`収集失敗: ${handle}`, e);
+        run.error(name, e);
+      }
+    }
+  } finally {
+    // 常駐（daemon）で失敗が続いてもブラウザを残さない
+    await context.close();
+    await browser.close();
   }
 
+  // 記録/再生モードではここで終了（news.json は更新しない）
+  if (!settleSnapshot('x', added)) return [];
+
+  // 投稿本文の企業名から tickers を補い、一致したウォッチリストを記録する
+  // 要約・タグ付け（SUMMARIZER 未設定なら何もしない。既存の項目には問い合わせない）
+  const linked = await summarizeItems(tagWatchlists(linkTickers(added), lists), { skipIds: new Set(readNewsFile().map(x => x.id)) });
+
+  // ダミー削除と追記をロック内で1回の書き込みにまとめる
+  let removed = 0;
+  let toAppend: NewsItem[] = [];
+  let merged: NewsItem[] = [];
+  const written = await updateNewsFile(existing => {
+    // クリーンモードでダミーエントリを削除
+    if (clean) {
+      const before = existing.length;
+      existing = existing.filter(x => !isDummyItem(x));
+      removed = before - existing.length;
+    }
+
+    // id は正規化 URL のハッシュなので、id の一致で重複（既存・今回分とも）を判定できる
+    const existingIds = new Set(existing.map(x => x.id));
+    toAppend = [];
+    for (const c of linked) {
+      if (!c.url || existingIds.has(c.id)) continue;
+      existingIds.add(c.id);
+      toAppend.push(c);
+    }
+    if (removed === 0 && toAppend.length === 0) return null;
+    merged = assignImportance(assignClusters(existing.concat(toAppend)));
+    return merged;
+  }, { dryRun: opts.dryRun });
+  // 実行記録のソースは取得したアカウント（リポストは元の投稿者が source のため）
+  countDuplicates(run, linked, toAppend, x => `X: ${x.post?.repostedBy || x.post?.author}`);
+
+  if (clean) {
+    console.log(removed > 0 ? `クリーン: ダミー項目を ${removed} 件削除しました。` : 'クリーン: 削除対象のダミー項目はありませんでした。');
+  }
   if (added.length === 0) {
     console.log('追加候補が見つかりませんでした。条件を見直してください。');
-    await browser.close();
-    return;
+    return [];
   }
-
-  // 既存のURL集合と次の採番を準備
-  const existingAfterClean = JSON.parse(fs.readFileSync(NEWS_JSON, 'utf-8')) as any[];
-  const existingUrls = new Set(existingAfterClean.map(x => (x && x.url) || ''));
-  const nextIdStart = calcNextIdStart(existingAfterClean);
-
-  let idCounter = nextIdStart;
-  const toAppend: any[] = [];
-  for (const c of added) {
-    if (!c.url || existingUrls.has(c.url)) continue;
-    toAppend.push({
-      ...c,
-      id: `sns-${idCounter++}`
-    });
-  }
-
   if (toAppend.length === 0) {
     console.log('新規に追加できるURLはありません（既存と重複）。');
-    await browser.close();
-    return;
+    return [];
   }
-
-  const merged = existingAfterClean.concat(toAppend);
-  fs.writeFileSync(NEWS_JSON, JSON.stringify(merged, null, 2), 'utf-8');
-  console.log(`news.json に ${toAppend.length} 件を追記しました。`);
-
-  await browser.close();
+  if (written) console.log(`news.json に ${toAppend.length} 件を追記しました。`);
+  // 追記した項目は重要度を付けた後のもので返す（通知ルールの評価に使う）
+  const addedIds = new Set(toAppend.map(x => x.id));
+  return merged.filter(x => addedIds.has(x.id));
 }
 
-function calcNextIdStart(items: any[]): number {
-  // 既存の id: "sns-N" の最大値+1を返す
-  let max = 0;
-  for (const it of items) {
-    const m = typeof it?.id === 'string' ? it.id.match(/^sns-(\d+)$/) : null;
-    if (m) {
-      const n = parseInt(m[1], 10);
-      if (!Number.isNaN(n)) max = Math.max(max, n);
-    }
-  }
-  return max + 1;
+function isDummyItem(x: NewsItem): boolean {
+  if (!x) return true;
+  // URLがexample.com配下は削除（旧連番 ID のダミー sns-10..14 は v3 移行で ID が変わったため URL のみで判定）
+  return typeof x.url === 'string' && /(^|\/\/)example\.com/i.test(x.url);
 }
 
-async function fetchFromAccount(page: Page, handle: string, limit: number): Promise<Candidate[]> {
+async function fetchFromAccount(page: Page, handle: string, limit: number, now: Date, classifier: Classifier, stats: SourceStats): Promise<Candidate[]> {
   const url = `https://x.com/${handle.replace(/^@/, '')}`;
   console.log(`アクセス: ${url}`);
   await page.goto(url, { waitUntil: 'domcontentloaded' });
+  stats.pagesVisited++;
 
   // ある程度スクロールして直近ポストを読み込む
   for (let i = 0; i < 3; i++) {
@@ -143,67 +183,79 @@ async function fetchFromAccount(page: Page, handle: string, limit: number): Prom
     await page.waitForTimeout(1000);
   }
 
-  // ツイート/ポスト要素（XのUI変更により壊れやすいためセレクタは汎用的に）
-  // role="article" のカードを候補にし、内部テキストやリンクからURL/本文を抽出
+  // 投稿カード（article）ごとに、投稿者・本文・リポスト/引用・固定・メディア・反応数を分けて読む（x/post.ts）
   const articles = await page.locator('article').elementHandles();
+  stats.linksSeen += articles.length;
 
   const candidates: Candidate[] = [];
+  let promoted = 0;
+  let stalePinned = 0;
   for (const a of articles) {
     if (candidates.length >= limit) break;
 
-    // 本文テキスト
-    const text = (await a.evaluate((el) => el.textContent || '')).trim();
-    if (!text) continue;
+    const post = parsePost(await readPostDom(a), handle);
+    if (!post) continue;
+    // パーマリンクと投稿者が取れた投稿を抽出できたものとして数える（金融関連かどうかは問わない）
+    stats.itemsExtracted++;
 
-    // ポストパーマリンク（/user/status/123...）を含むリンクを探す
-    const links = await a.$$('a[href*="/status/"]');
-    if (links.length === 0) continue;
-
-    // 最初のリンクをポストURLとみなす
-    const href = await links[0].evaluate((el: any) => (el.getAttribute('href') as string) || '');
-    if (!href) continue;
+    // 広告と、固定されたままの古い投稿は取り込まない
+    if (post.promoted) {
+      promoted++;
+      continue;
+    }
+    if (post.pinned && !isRecent(post.publishedAt, PINNED_MAX_AGE_HOURS, now)) {
+      stalePinned++;
+      continue;
+    }
+    if (!post.text) continue;
 
-    const absoluteUrl = toAbsoluteUrl('https://x.com', href);
-    
-    // 金融関連キーワードのフィルタリング（関連性の高い投稿のみ収集）
-    const isFinanceRelated = /決算|業績|株価|為替|日経|ドル円|日銀|政策|金利|投資|経済|GDP|CPI|上場|下落|上昇|急落|急伸|銀行|企業|市場|マーケット|トレーディング|アナリスト|予想|サプライズ|速報|緊急|警告|注意/.test(text.toLowerCase());
-    // アカウントが既に金融系の場合はフィルタを緩める
-    const isFinanceAccount = /@(nikkei|reuters|bloomberg|gaitame|quick|nhk_news|monex|rakuten|sbi|kabutan|minkabu|yol_economy)/i.test(handle);
-    if (!isFinanceRelated && !isFinanceAccount) continue;
-    
-    const title = clipTitle(text, 100);
-    const summary = clipSummary(text, 200);
+    // source は元の投稿者（リポストでも）。リポストしたアカウントは post.repostedBy に残す
+    const source = `X: ${post.author}`;
+    // 金融関連の投稿のみ収集（分類ルールの finance。金融系アカウントはルール側で常に対象になる）
+    const c = classifier.classify({ title: post.text, summary: post.quoted?.text, source });
+    if (!c.finance) continue;
 
-    const publishedAt = await extractPublishedTime(a).catch(() => null);
+    const summary = post.quoted ? `${post.text} ／ 引用 ${post.quoted.author}: ${post.quoted.text}` : post.text;
 
     candidates.push({
-      id: 'sns-0', // 後で採番
+      id: itemIdFromUrl(post.url),
       category: 'sns',
-      title,
-      summary,
-      source: `X: ${handle}`,
-      url: absoluteUrl,
-      publishedAt,
+      title: clipTitle(post.text, 100),
+      summary: clipSummary(summary, 200),
+      source,
+      url: post.url,
+      publishedAt: post.publishedAt,
       tags: [],
       locale: 'ja',
       verified: true,
-      thumbnail: ''
+      thumbnail: post.media[0] || '',
+      ...(c.type ? { type: c.type } : {}),
+      classification: toItemClassification(c),
+      post: {
+        author: post.author,
+        ...(post.authorName ? { authorName: post.authorName } : {}),
+        ...(post.repostedBy ? { repostedBy: post.repostedBy } : {}),
+        ...(post.quoted ? { quoted: post.quoted } : {}),
+        ...(post.pinned ? { pinned: true } : {}),
+        media: post.media,
+        metrics: post.metrics,
+      },
     });
   }
 
   // 重複URLを同アカウント内で排除
   const uniq = uniqBy(candidates, (c) => c.url);
-  console.log(`${handle}: 抽出 ${uniq.length} 件`);
+  stats.undated += uniq.filter(c => !c.publishedAt).length;
+  stats.duplicates += candidates.length - uniq.length;
+  const skipped = [promoted ? `広告 ${promoted} 件` : '', stalePinned ? `古い固定投稿 ${stalePinned} 件` : ''].filter(Boolean);
+  console.log(`${handle}: 抽出 ${uniq.length} 件${skipped.length ? `（除外: ${skipped.join(' / ')}）` : ''}`);
   return uniq.slice(0, limit);
 }
 
-function toAbsoluteUrl(base: string, href: string): string {
-  try {
-    if (/^https?:\/\//i.test(href)) return href;
-    return new URL(href, base).toString();
-  } catch {
-    return href;
-  }
+function isRecent(publishedAt: string | null, hours: number, now: Date): boolean {
+  if (!publishedAt) return false;
+  const t = new Date(publishedAt).getTime();
+  return !Number.isNaN(t) && now.getTime() - t <= hours * 60 * 60 * 1000;
 }
 
 function clipTitle(s: string, len: number): string {
@@ -216,20 +268,6 @@ function clipSummary(s: string, len: number): string {
   return clipTitle(s, len);
 }
 
-async function extractPublishedTime(handle: import('playwright').ElementHandle): Promise<string | null> {
-  // timeタグまたはdatetime属性を探索
-  try {
-    const timeEl = await handle.$('time');
-    if (!timeEl) return null;
-    const dt = await timeEl.getAttribute('datetime');
-    if (!dt) return null;
-    // Xの datetime はISO8601想定
-    return dt;
-  } catch {
-    return null;
-  }
-}
-
 function uniqBy<T>(arr: T[], key: (t: T) => string): T[] {
   const seen = new Set<string>();
   const out: T[] = [];
@@ -242,7 +280,11 @@ function uniqBy<T>(arr: T[], key: (t: T) => string): T[] {
   return out;
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
\ No newline at end of file
+if (require.main === module) {
+  fetchX().then((r) => {
+    if (r.flags.length) process.exitCode = 2;
+  }).catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
\ No newline at end of file
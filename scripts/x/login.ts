@@ -1,7 +1,11 @@
 import { chromium, BrowserContext } from 'playwright';
 
 async function main() {
-  const STORAGE_PATH = process.env.PW_STORAGE_STATE_PATH || 'scripts/x/storageState.json';
+  // 保存先: --storage-state <path> > PW_STORAGE_STATE_PATH > 既定
+  const argIdx = process.argv.indexOf('--storage-state');
+  const STORAGE_PATH = (argIdx >= 0 && process.argv[argIdx + 1])
+    || process.env.PW_STORAGE_STATE_PATH
+    || 'scripts/x/storageState.json';
 
   const browser = await chromium.launch({ headless: false });
   const context: BrowserContext = await browser.newContext();
@@ -0,0 +1,42 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { RawPost, parseCount, parsePost } from './post';
+
+const raw = (permalink: string, extra: Partial<RawPost> = {}): RawPost => ({
+  socialContext: '',
+  promoted: false,
+  authorName: 'NHKニュース',
+  authorHref: permalink.split('/status/')[0],
+  permalink,
+  datetime: '2026-01-05T00:00:00.000Z',
+  text: '日銀 政策金利を据え置き',
+  media: [],
+  metricLabels: {},
+  quote: null,
+  ...extra,
+});
+
+test('本人の投稿は対象に指定したハンドルの表記にそろえる', () => {
+  const post = parsePost(raw('/nhk_news/status/100'), '@NHK_news');
+  assert.equal(post?.author, '@NHK_news');
+  assert.equal(post?.repostedBy, null);
+  assert.equal(post?.url, 'https://x.com/nhk_news/status/100');
+});
+
+test('リポストは元の投稿者を author、持ち主を repostedBy にする', () => {
+  const post = parsePost(raw('/nikkei/status/200', { socialContext: 'NHKニュースさんがリポストしました' }), 'NHK_news');
+  assert.equal(post?.author, '@nikkei');
+  assert.equal(post?.repostedBy, '@NHK_news');
+});
+
+test('パーマリンクが無ければ null', () => {
+  assert.equal(parsePost(raw(''), '@NHK_news'), null);
+});
+
+test('反応の件数', () => {
+  assert.equal(parseCount('1,234 件のいいね'), 1234);
+  assert.equal(parseCount('1.2万 件の表示'), 12000);
+  assert.equal(parseCount('3.4K Likes'), 3400);
+  assert.equal(parseCount('返信する'), 0);
+  assert.equal(parseCount(undefined), null);
+});
@@ -0,0 +1,167 @@
+import { ElementHandle } from 'playwright';
+
+/**
+ * X のタイムライン上の投稿（article）の読み取り
+ *   article の textContent には表示名・ハンドル・時刻・ボタンの文言が混ざるため、要素ごとに分けて取り出す
+ *   DOM は readPostDom で1回の evaluate にまとめて読み、解釈（parsePost）は Node 側で行う
+ *   要素は data-testid を優先する（User-Name / tweetText / socialContext / tweetPhoto / reply / retweet / like）
+ * 引用された投稿は本文中のカード（投稿者名を含む div[role="link"]）として入っているので、投稿本体の要素と区別する
+ */
+
+const BASE = 'https://x.com';
+
+export type PostMetrics = {
+  replies?: number;
+  reposts?: number;
+  likes?: number;
+  views?: number;
+};
+
+// DOM から取り出したままの値
+export type RawPost = {
+  socialContext: string;   // 例: "日本経済新聞さんがリポストしました" / "固定" / "Pinned"
+  promoted: boolean;
+  authorName: string;
+  authorHref: string;      // 例: "/nikkei"
+  permalink: string;       // 例: "/nikkei/status/1234567890"
+  datetime: string | null;
+  text: string;
+  media: string[];
+  metricLabels: Partial<Record<keyof PostMetrics, string>>;  // 各ボタンの aria-label
+  quote: { authorHref: string; permalink: string; text: string } | null;
+};
+
+export type XPost = {
+  url: string;                 // 投稿のパーマリンク（リポストなら元の投稿）
+  author: string;              // 投稿者のハンドル（例: "@nikkei"）
+  authorName: string;
+  text: string;
+  publishedAt: string | null;
+  repostedBy: string | null;   // タイムラインの持ち主がリポストした投稿なら、持ち主のハンドル
+  quoted: { url: string | null; author: string; text: string } | null;
+  pinned: boolean;
+  promoted: boolean;
+  media: string[];             // 画像・動画（サムネイル）の URL
+  metrics: PostMetrics;
+};
+
+/**
+ * タイムライン（timeline のプロフィール）上の1投稿を解釈する。パーマリンクか投稿者が取れなければ null
+ */
+export function parsePost(raw: RawPost, timeline: string): XPost | null {
+  const m = raw.permalink.match(/^(?:https?:\/\/[^/]+)?\/([A-Za-z0-9_]+)\/status\/(\d+)/);
+  if (!m) return null;
+  const owner = `@${timeline.replace(/^@/, '')}`;
+  // プロフィールには本人の投稿とリポストしか並ばないので、投稿者が持ち主と違えばリポスト
+  const reposted = m[1].toLowerCase() !== owner.slice(1).toLowerCase();
+  // 本人の投稿は対象に指定したハンドルの表記にそろえる（パーマリンクは大文字小文字が違うことがあり、
+  // source と実行記録のソース名 "X: @handle" がずれるため）
+  const author = reposted ? `@${m[1]}` : owner;
+
+  return {
+    url: `${BASE}/${m[1]}/status/${m[2]}`,
+    author,
+    authorName: raw.authorName.trim(),
+    text: raw.text.replace(/[ \t]+/g, ' ').trim(),
+    publishedAt: raw.datetime,
+    repostedBy: reposted ? owner : null,
+    quoted: raw.quote ? parseQuote(raw.quote) : null,
+    pinned: /固定|pinned/i.test(raw.socialContext),
+    promoted: raw.promoted,
+    media: [...new Set(raw.media)],
+    metrics: parseMetrics(raw.metricLabels),
+  };
+}
+
+function parseQuote(q: NonNullable<RawPost['quote']>): XPost['quoted'] {
+  const m = q.permalink.match(/^(?:https?:\/\/[^/]+)?\/([A-Za-z0-9_]+)\/status\/(\d+)/);
+  const handle = m ? m[1] : q.authorHref.replace(/^\//, '');
+  return {
+    url: m ? `${BASE}/${m[1]}/status/${m[2]}` : null,
+    author: handle ? `@${handle}` : '',
+    text: q.text.replace(/[ \t]+/g, ' ').trim(),
+  };
+}
+
+function parseMetrics(labels: RawPost['metricLabels']): PostMetrics {
+  const out: PostMetrics = {};
+  for (const [key, label] of Object.entries(labels) as [keyof PostMetrics, string][]) {
+    const n = parseCount(label);
+    if (n !== null) out[key] = n;
+  }
+  return out;
+}
+
+/**
+ * aria-label の件数（例: "1,234 件のいいね" / "1.2万 件の表示" / "3.4K Likes"）。数字が無ければ 0（ボタンはあるが反応なし）
+ */
+export function parseCount(label: string | undefined): number | null {
+  if (label === undefined) return null;
+  const m = label.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(万|千|K|M)?/i);
+  if (!m) return 0;
+  const unit = { '万': 10000, '千': 1000, k: 1000, m: 1000000 }[m[2]?.toLowerCase() as string] ?? 1;
+  return Math.round(parseFloat(m[1]) * unit);
+}
+
+/**
+ * 投稿の要素を1回の evaluate で読む（ブラウザ内で実行されるため外の関数・定数は使えない）
+ */
+export async function readPostDom(article: ElementHandle): Promise<RawPost> {
+  return article.evaluate((el: Element) => {
+    const all = (root: Element, sel: string) => Array.from(root.querySelectorAll(sel));
+    const quoteEl = all(el, 'div[role="link"]').find(d => d.querySelector('[data-testid="User-Name"]')) || null;
+    // 引用カードの中の要素は投稿本体として扱わない
+    const own = (sel: string) => all(el, sel).filter(n => !quoteEl || !quoteEl.contains(n));
+    const textOf = (n: Element | null) => {
+      let out = '';
+      const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) out += node.textContent;
+        else if (node.nodeName === 'IMG') out += (node as Element).getAttribute('alt') || '';  // 絵文字は img の alt
+        else node.childNodes.forEach(walk);
+      };
+      if (n) walk(n);
+      return out;
+    };
+    const permalinkIn = (times: Element[], links: Element[]) =>
+      times.map(t => t.closest('a[href*="/status/"]')?.getAttribute('href')).find(Boolean)
+      || links.map(a => a.getAttribute('href')).find(h => /\/status\/\d+/.test(h || ''))
+      || '';
+
+    const userName = own('[data-testid="User-Name"]')[0] || null;
+    const time = own('time')[0] || null;
+    const label = (sel: string) => own(sel)[0]?.getAttribute('aria-label') ?? undefined;
+
+    const metricLabels: Record<string, string | undefined> = {
+      replies: label('[data-testid="reply"]'),
+      reposts: label('[data-testid="retweet"]') ?? label('[data-testid="unretweet"]'),
+      likes: label('[data-testid="like"]') ?? label('[data-testid="unlike"]'),
+      views: label('a[href*="/analytics"]'),
+    };
+    for (const k of Object.keys(metricLabels)) if (metricLabels[k] === undefined) delete metricLabels[k];
+
+    const media = [
+      ...own('[data-testid="tweetPhoto"] img').map(img => img.getAttribute('src') || ''),
+      ...own('video').map(v => v.getAttribute('poster') || ''),
+    ].filter(src => /^https?:\/\//.test(src) && !/profile_images|\/emoji\//.test(src));
+
+    const promoted = own('[data-testid="placementTracking"]').length > 0
+      || own('span').some(s => /^(プロモーション|Promoted|Ad|広告)$/.test((s.textContent || '').trim()));
+
+    return {
+      socialContext: (own('[data-testid="socialContext"]')[0]?.textContent || '').trim(),
+      promoted,
+      authorName: (userName?.querySelector('span')?.textContent || '').trim(),
+      authorHref: userName?.querySelector('a[href^="/"]')?.getAttribute('href') || '',
+      permalink: permalinkIn(time ? [time] : [], own('a[href*="/status/"]')),
+      datetime: time?.getAttribute('datetime') || null,
+      text: textOf(own('[data-testid="tweetText"]')[0] || null),
+      media,
+      metricLabels,
+      quote: quoteEl ? {
+        authorHref: quoteEl.querySelector('[data-testid="User-Name"] a[href^="/"]')?.getAttribute('href') || '',
+        permalink: permalinkIn(all(quoteEl, 'time'), all(quoteEl, 'a[href*="/status/"]')),
+        text: textOf(quoteEl.querySelector('[data-testid="tweetText"]')),
+      } : null,
+    };
+  });
+}